@@ -10,6 +10,7 @@ dotenv.config();
 
 // Import middleware
 import { authenticateUser } from './middleware/auth';
+import { scopeIdempotencyKey } from './middleware/idempotency';
 
 // Initialize Express app
 const app = express();
@@ -55,6 +56,7 @@ const paymentServiceProxy = createProxyMiddleware({
 
 // Authenticate all API routes
 app.use('/api', authenticateUser);
+app.use('/api', scopeIdempotencyKey);
 
 // Set up proxy routes
 app.use('/api/users', userServiceProxy);
@@ -62,6 +64,8 @@ app.use('/api/events', eventServiceProxy);
 app.use('/api/spaces', eventServiceProxy);
 app.use('/api/bookings', bookingServiceProxy);
 app.use('/api/requests', bookingServiceProxy);
+app.use('/api/waitlist', bookingServiceProxy);
+app.use('/api/promo-codes', bookingServiceProxy);
 app.use('/api/payments', paymentServiceProxy);
 
 // Error handling
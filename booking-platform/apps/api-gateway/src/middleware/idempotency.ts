@@ -0,0 +1,31 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth';
+
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/**
+ * Middleware to validate Idempotency-Key headers and scope them to the caller,
+ * so two users can never replay each other's responses
+ */
+export const scopeIdempotencyKey = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  const key = req.headers['idempotency-key'];
+
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  if (typeof key !== 'string' || !IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    res.status(400).json({
+      success: false,
+      error: {
+        message: 'Idempotency-Key must be 1-128 letters, digits, dashes or underscores',
+        code: 'INVALID_IDEMPOTENCY_KEY'
+      }
+    });
+    return;
+  }
+
+  req.headers['idempotency-key'] = `${req.user?.uid}:${key}`;
+  next();
+};
\ No newline at end of file
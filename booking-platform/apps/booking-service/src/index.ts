@@ -4,6 +4,10 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import dotenv from 'dotenv';
 import { connectToDatabase } from '@booking-platform/database';
+import { identifyUser } from '@booking-platform/middleware';
+import { startHoldSweeper } from './services/capacity.service';
+import { offerNextWaitlistSpots, startWaitlistWorker } from './services/waitlist.service';
+import { startRequestExpiryWorker } from './services/request-expiry.service';
 
 // Load environment variables
 dotenv.config();
@@ -11,6 +15,8 @@ dotenv.config();
 // Import routes
 import bookingRoutes from './routes/booking.routes';
 import requestRoutes from './routes/request.routes';
+import waitlistRoutes from './routes/waitlist.routes';
+import promoRoutes from './routes/promo.routes';
 
 // Initialize Express app
 const app = express();
@@ -22,6 +28,9 @@ app.use(cors());
 app.use(express.json());
 app.use(morgan('dev'));
 
+// Identify the caller from the token passed on by the gateway or a calling service
+app.use('/api', identifyUser);
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', service: 'booking-service' });
@@ -30,6 +39,8 @@ app.get('/health', (req, res) => {
 // Register routes
 app.use('/api', bookingRoutes);
 app.use('/api', requestRoutes);
+app.use('/api', waitlistRoutes);
+app.use('/api', promoRoutes);
 
 // Error handling
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -47,6 +58,9 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 const startServer = async () => {
   try {
     await connectToDatabase(process.env.MONGODB_URI as string);
+    startHoldSweeper(offerNextWaitlistSpots);
+    startWaitlistWorker();
+    startRequestExpiryWorker();
     app.listen(port, () => {
       console.log(`Booking Service running on port ${port}`);
     });
@@ -9,6 +9,10 @@ import {
   InboxIcon,
   BanknotesIcon,
   UserIcon,
+  TicketIcon,
+  CreditCardIcon,
+  TagIcon,
+  GiftIcon,
   ArrowLeftOnRectangleIcon
 } from '@heroicons/react/24/outline';
 import { useAuth } from '@/contexts/AuthContext';
@@ -39,6 +43,9 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children, title }) =>
       { name: 'My Bookings', href: '/dashboard/bookings', icon: CalendarIcon },
       { name: 'My Requests', href: '/dashboard/requests', icon: InboxIcon },
       { name: 'Payment History', href: '/dashboard/payments', icon: BanknotesIcon },
+      { name: 'Memberships', href: '/dashboard/memberships', icon: TicketIcon },
+      { name: 'Class Packs', href: '/dashboard/credits', icon: CreditCardIcon },
+      { name: 'Gift Cards', href: '/dashboard/gift-cards', icon: GiftIcon },
       { name: 'Profile', href: '/profile', icon: UserIcon }
     ],
     provider: [
@@ -48,6 +55,10 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children, title }) =>
       { name: 'Bookings', href: '/dashboard/bookings', icon: UserGroupIcon },
       { name: 'Requests', href: '/dashboard/requests', icon: InboxIcon },
       { name: 'Payments', href: '/dashboard/payments', icon: BanknotesIcon },
+      { name: 'Memberships', href: '/dashboard/memberships', icon: TicketIcon },
+      { name: 'Class Packs', href: '/dashboard/credits', icon: CreditCardIcon },
+      { name: 'Promo Codes', href: '/dashboard/promo-codes', icon: TagIcon },
+      { name: 'Gift Cards', href: '/dashboard/gift-cards', icon: GiftIcon },
       { name: 'Profile', href: '/profile', icon: UserIcon }
     ]
   };
@@ -3,6 +3,15 @@ import { Elements } from '@stripe/react-stripe-js';
 import { loadStripe } from '@stripe/stripe-js';
 import StripePaymentForm from './StripePaymentForm';
 
+// What re-initiating a payment with a gift card returns
+export interface GiftCardPayment {
+  clientSecret: string | null;
+  amount: number;
+  currency: string;
+  giftCardAmount: number;
+  paidInFull: boolean;
+}
+
 interface PaymentModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -13,6 +22,8 @@ interface PaymentModalProps {
   } | null;
   onPaymentSuccess: () => void;
   onPaymentError: (error: string) => void;
+  // Restart the payment with a gift card taken off; leave unset where cards can't be used
+  onApplyGiftCard?: (code: string) => Promise<GiftCardPayment>;
 }
 
 // Initialize Stripe
@@ -24,18 +35,60 @@ const PaymentModal: React.FC<PaymentModalProps> = ({
   paymentInfo,
   onPaymentSuccess,
   onPaymentError,
+  onApplyGiftCard,
 }) => {
   const [isMounted, setIsMounted] = useState(false);
+  const [giftCardCode, setGiftCardCode] = useState('');
+  const [giftCardError, setGiftCardError] = useState('');
+  const [isApplyingGiftCard, setIsApplyingGiftCard] = useState(false);
+  const [giftCardPayment, setGiftCardPayment] = useState<GiftCardPayment | null>(null);
 
   // Handle component mounting to avoid hydration issues
   useEffect(() => {
     setIsMounted(true);
   }, []);
 
+  // A new payment starts without a gift card
+  useEffect(() => {
+    setGiftCardCode('');
+    setGiftCardError('');
+    setGiftCardPayment(null);
+  }, [paymentInfo?.clientSecret]);
+
   if (!isMounted || !isOpen || !paymentInfo) {
     return null;
   }
 
+  const handleApplyGiftCard = async () => {
+    if (!onApplyGiftCard || !giftCardCode.trim()) {
+      return;
+    }
+
+    setIsApplyingGiftCard(true);
+    setGiftCardError('');
+
+    try {
+      const payment = await onApplyGiftCard(giftCardCode.trim());
+
+      // The card covered everything, so there is nothing left to charge
+      if (payment.paidInFull) {
+        onPaymentSuccess();
+        onClose();
+        return;
+      }
+
+      setGiftCardPayment(payment);
+    } catch (error: any) {
+      setGiftCardError(error.response?.data?.error?.message || 'Failed to apply gift card');
+    } finally {
+      setIsApplyingGiftCard(false);
+    }
+  };
+
+  const currentPayment = giftCardPayment?.clientSecret
+    ? { clientSecret: giftCardPayment.clientSecret, amount: giftCardPayment.amount, currency: giftCardPayment.currency }
+    : paymentInfo;
+
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto">
       <div className="flex items-center justify-center min-h-screen px-4 text-center">
@@ -63,12 +116,48 @@ const PaymentModal: React.FC<PaymentModalProps> = ({
             </button>
           </div>
 
+          {onApplyGiftCard && (
+            <div className="mb-4">
+              {giftCardPayment ? (
+                <p className="text-sm text-green-700">
+                  Gift card applied: {giftCardPayment.currency} {giftCardPayment.giftCardAmount.toFixed(2)} off.
+                  The rest is charged to your card.
+                </p>
+              ) : (
+                <>
+                  <label htmlFor="gift-card-code" className="block text-sm font-medium text-gray-700">
+                    Gift card
+                  </label>
+                  <div className="mt-1 flex">
+                    <input
+                      id="gift-card-code"
+                      type="text"
+                      value={giftCardCode}
+                      onChange={(e) => setGiftCardCode(e.target.value.toUpperCase())}
+                      placeholder="GC-XXXX-XXXX-XXXX"
+                      className="block w-full rounded-l-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleApplyGiftCard}
+                      disabled={isApplyingGiftCard || !giftCardCode.trim()}
+                      className="px-4 py-2 border border-l-0 border-gray-300 rounded-r-md text-sm font-medium text-gray-700 bg-gray-50 hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      {isApplyingGiftCard ? 'Applying...' : 'Apply'}
+                    </button>
+                  </div>
+                  {giftCardError && <p className="mt-1 text-sm text-red-600">{giftCardError}</p>}
+                </>
+              )}
+            </div>
+          )}
+
           <div>
             <Elements stripe={stripePromise}>
               <StripePaymentForm
-                clientSecret={paymentInfo.clientSecret}
-                amount={paymentInfo.amount}
-                currency={paymentInfo.currency}
+                clientSecret={currentPayment.clientSecret}
+                amount={currentPayment.amount}
+                currency={currentPayment.currency}
                 onSuccess={() => {
                   onPaymentSuccess();
                   onClose();
@@ -34,11 +34,16 @@ api.interceptors.response.use(
 
 export default api;
 
+// Send an Idempotency-Key so retrying a request can't create it twice
+const withIdempotencyKey = (idempotencyKey?: string) =>
+  idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : undefined;
+
 // User API calls
 export const userAPI = {
   createUser: (data: any) => api.post('/users', data),
   getCurrentUser: () => api.get('/users/me'),
   updateUser: (data: any) => api.put('/users/me', data),
+  updateRateCard: (data: any) => api.put('/users/me/rate-card', data),
   followUser: (userId: string) => api.post(`/users/${userId}/follow`),
   unfollowUser: (userId: string) => api.delete(`/users/${userId}/follow`),
   getUserFollowers: (userId: string) => api.get(`/users/${userId}/followers`),
@@ -73,29 +78,80 @@ export const spaceAPI = {
 
 // Booking API calls
 export const bookingAPI = {
-  createBooking: (data: any) => api.post('/bookings', data),
+  createBooking: (data: any, idempotencyKey?: string) =>
+    api.post('/bookings', data, withIdempotencyKey(idempotencyKey)),
   getMyBookings: (params?: any) => api.get('/bookings/me', { params }),
   getBookingById: (id: string) => api.get(`/bookings/${id}`),
   updateBookingStatus: (id: string, data: any) => api.put(`/bookings/${id}/status`, data),
+  rescheduleBooking: (id: string, data: any) => api.put(`/bookings/${id}/reschedule`, data),
   getEventBookings: (eventId: string, params?: any) => 
     api.get(`/events/${eventId}/bookings`, { params }),
+  getMyWaitlist: (params?: any) => api.get('/waitlist/me', { params }),
+  claimWaitlistOffer: (id: string) => api.post(`/waitlist/${id}/claim`),
+  leaveWaitlist: (id: string) => api.delete(`/waitlist/${id}`),
 };
 
 // Request API calls
 export const requestAPI = {
   createRequest: (data: any) => api.post('/requests', data),
+  quoteRequest: (data: any) => api.post('/requests/quote', data),
   getMyRequests: (params?: any) => api.get('/requests/me', { params }),
   getCreatorRequests: (params?: any) => api.get('/requests/creator', { params }),
   getVenueRequests: (params?: any) => api.get('/requests/venue', { params }),
+  getSharedRequests: (params?: any) => api.get('/requests/shared', { params }),
   getRequestById: (id: string) => api.get(`/requests/${id}`),
   updateRequestApproval: (id: string, data: any) => api.put(`/requests/${id}/approval`, data),
+  createSplitPayment: (id: string, data: any) => api.post(`/requests/${id}/split`, data),
+  convertRequest: (id: string) => api.post(`/requests/${id}/convert`),
+  proposeTerms: (id: string, data: any) => api.post(`/requests/${id}/proposals`, data),
+  respondToProposal: (id: string, version: number, data: any) =>
+    api.post(`/requests/${id}/proposals/${version}/respond`, data),
 };
 
 // Payment API calls
 export const paymentAPI = {
-  initiatePayment: (data: any) => api.post('/payments/initiate', data),
+  initiatePayment: (data: any, idempotencyKey?: string) =>
+    api.post('/payments/initiate', data, withIdempotencyKey(idempotencyKey)),
   confirmPayment: (data: any) => api.post('/payments/confirm', data),
   processRefund: (data: any) => api.post('/payments/refund', data),
   getUserTransactions: () => api.get('/payments/transactions'),
   setupStripeAccount: (data: any) => api.post('/payments/setup-stripe', data),
+  getMyDisputes: (params?: any) => api.get('/payments/disputes', { params }),
+  updateDisputeEvidence: (id: string, data: any) => api.put(`/payments/disputes/${id}/evidence`, data),
+};
+// Membership API calls
+export const membershipAPI = {
+  createPlan: (data: any) => api.post('/payments/memberships/plans', data),
+  getPlans: (params?: any) => api.get('/payments/memberships/plans', { params }),
+  deactivatePlan: (id: string) => api.delete(`/payments/memberships/plans/${id}`),
+  createMembership: (data: any, idempotencyKey?: string) =>
+    api.post('/payments/memberships', data, withIdempotencyKey(idempotencyKey)),
+  getMyMemberships: () => api.get('/payments/memberships/me'),
+  cancelMembership: (id: string) => api.delete(`/payments/memberships/${id}`),
+};
+
+// Class pack API calls
+export const creditAPI = {
+  createPack: (data: any) => api.post('/payments/credits/packs', data),
+  getPacks: (params?: any) => api.get('/payments/credits/packs', { params }),
+  deactivatePack: (id: string) => api.delete(`/payments/credits/packs/${id}`),
+  purchasePack: (id: string, idempotencyKey?: string) =>
+    api.post(`/payments/credits/packs/${id}/purchase`, {}, withIdempotencyKey(idempotencyKey)),
+  getMyCredits: () => api.get('/payments/credits/me'),
+};
+
+// Promo code API calls
+export const promoAPI = {
+  createPromoCode: (data: any) => api.post('/promo-codes', data),
+  getMyPromoCodes: () => api.get('/promo-codes/me'),
+  previewPromoCode: (data: any) => api.post('/promo-codes/preview', data),
+  deactivatePromoCode: (id: string) => api.delete(`/promo-codes/${id}`),
+};
+
+// Gift card API calls
+export const giftCardAPI = {
+  purchaseGiftCard: (data: any, idempotencyKey?: string) =>
+    api.post('/payments/gift-cards', data, withIdempotencyKey(idempotencyKey)),
+  getMyGiftCards: () => api.get('/payments/gift-cards/me'),
+  getGiftCardBalance: (code: string) => api.get(`/payments/gift-cards/${encodeURIComponent(code)}/balance`),
 };
\ No newline at end of file
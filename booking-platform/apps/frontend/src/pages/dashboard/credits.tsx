@@ -0,0 +1,264 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { eventAPI, creditAPI } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+
+const emptyPack = {
+  name: '',
+  description: '',
+  credits: '',
+  price: '',
+  validityDays: '90',
+  eventIds: [] as string[]
+};
+
+// Pack creation form and list for providers
+const ProviderPacks = ({ providerId }: { providerId: string }) => {
+  const queryClient = useQueryClient();
+  const [pack, setPack] = useState(emptyPack);
+  const [error, setError] = useState('');
+
+  const { data: packsData } = useQuery(
+    ['creditPacks', 'provider', providerId],
+    () => creditAPI.getPacks({ providerId })
+  );
+
+  const { data: eventsData } = useQuery('myEvents', () => eventAPI.getMyEvents());
+
+  const packs = packsData?.data?.data || [];
+  const events = eventsData?.data?.data || [];
+
+  const createPack = useMutation(
+    () => creditAPI.createPack({
+      name: pack.name,
+      description: pack.description || undefined,
+      credits: Number(pack.credits),
+      price: Number(pack.price),
+      validityDays: Number(pack.validityDays),
+      eventIds: pack.eventIds
+    }),
+    {
+      onSuccess: () => {
+        setPack(emptyPack);
+        setError('');
+        queryClient.invalidateQueries('creditPacks');
+      },
+      onError: (error: any) => {
+        setError(error.response?.data?.error?.message || 'Failed to create class pack');
+      }
+    }
+  );
+
+  const deactivatePack = useMutation(
+    (id: string) => creditAPI.deactivatePack(id),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('creditPacks');
+      }
+    }
+  );
+
+  const toggleEvent = (eventId: string) => {
+    setPack({
+      ...pack,
+      eventIds: pack.eventIds.includes(eventId)
+        ? pack.eventIds.filter((id) => id !== eventId)
+        : [...pack.eventIds, eventId]
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createPack.mutate();
+  };
+
+  return (
+    <div className="mb-10">
+      <h3 className="text-lg font-medium leading-6 text-gray-900">Your Class Packs</h3>
+      <p className="mt-1 text-sm text-gray-500">
+        Sell credits up front. Customers spend one credit per person on each booking.
+      </p>
+
+      <form onSubmit={handleSubmit} className="mt-4 bg-white shadow-sm rounded-lg p-6 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="pack-name" className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              id="pack-name"
+              type="text"
+              value={pack.name}
+              onChange={(e) => setPack({ ...pack, name: e.target.value })}
+              placeholder="10-class pack"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="pack-credits" className="block text-sm font-medium text-gray-700">Credits</label>
+            <input
+              id="pack-credits"
+              type="number"
+              min="1"
+              value={pack.credits}
+              onChange={(e) => setPack({ ...pack, credits: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="pack-price" className="block text-sm font-medium text-gray-700">Price ($)</label>
+            <input
+              id="pack-price"
+              type="number"
+              min="1"
+              step="0.01"
+              value={pack.price}
+              onChange={(e) => setPack({ ...pack, price: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="pack-validity" className="block text-sm font-medium text-gray-700">Valid for (days)</label>
+            <input
+              id="pack-validity"
+              type="number"
+              min="1"
+              value={pack.validityDays}
+              onChange={(e) => setPack({ ...pack, validityDays: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="pack-description" className="block text-sm font-medium text-gray-700">Description (optional)</label>
+          <textarea
+            id="pack-description"
+            rows={2}
+            value={pack.description}
+            onChange={(e) => setPack({ ...pack, description: e.target.value })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+          />
+        </div>
+
+        {events.length > 0 && (
+          <div>
+            <span className="block text-sm font-medium text-gray-700">Covered events</span>
+            <p className="text-xs text-gray-500">Leave all unticked to allow any event you host.</p>
+            <div className="mt-2 space-y-1">
+              {events.map((event: any) => (
+                <label key={event._id} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={pack.eventIds.includes(event._id)}
+                    onChange={() => toggleEvent(event._id)}
+                    className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  {event.title}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={createPack.isLoading || !pack.name.trim() || !pack.credits || !pack.price || !pack.validityDays}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+          >
+            {createPack.isLoading ? 'Creating...' : 'Create Pack'}
+          </button>
+        </div>
+      </form>
+
+      {packs.length > 0 && (
+        <ul className="mt-4 space-y-3">
+          {packs.map((existing: any) => (
+            <li key={existing._id} className="bg-white shadow-sm rounded-lg p-4 flex items-center justify-between">
+              <div>
+                <p className="font-medium text-gray-900">{existing.name}</p>
+                <p className="text-sm text-gray-500">
+                  {existing.credits} credits for ${existing.price} &middot; valid {existing.validityDays} days
+                  {existing.eventIds.length > 0 && ` · ${existing.eventIds.length} events`}
+                </p>
+              </div>
+              <button
+                onClick={() => deactivatePack.mutate(existing._id)}
+                disabled={deactivatePack.isLoading}
+                className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+              >
+                Stop selling
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default function CreditsPage() {
+  const { userProfile } = useAuth();
+  const isProvider = userProfile?.role === 'provider';
+
+  // Fetch the user's unexpired credits
+  const { data, isLoading, error } = useQuery(
+    ['credits'],
+    () => creditAPI.getMyCredits()
+  );
+
+  const grants = data?.data?.data || [];
+  const totalCredits = grants.reduce((sum: number, grant: any) => sum + grant.creditsRemaining, 0);
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout title="Class Packs">
+        {isProvider && userProfile?.firebaseId && <ProviderPacks providerId={userProfile.firebaseId} />}
+
+        <div className="mb-4">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">My Credits</h3>
+          {totalCredits > 0 && (
+            <p className="mt-1 text-sm text-gray-500">
+              {totalCredits} {totalCredits === 1 ? 'credit' : 'credits'} available. The ones expiring soonest are used first.
+            </p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Loading credits...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-500">Error loading credits. Please try again.</p>
+          </div>
+        ) : grants.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-6 text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No credits</h3>
+            <p className="text-gray-600">Buy a class pack from an event page to book with credits.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {grants.map((grant: any) => (
+              <div key={grant._id} className="bg-white shadow-sm rounded-lg p-6 flex items-start justify-between">
+                <div>
+                  <h4 className="text-base font-medium text-gray-900">{grant.pack?.name || 'Class pack'}</h4>
+                  <p className="mt-1 text-sm text-gray-500">
+                    {grant.creditsRemaining} of {grant.creditsTotal} credits left
+                  </p>
+                </div>
+                <span className="text-sm text-gray-500">
+                  Expires {format(new Date(grant.expiresAt), 'MMMM d, yyyy')}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
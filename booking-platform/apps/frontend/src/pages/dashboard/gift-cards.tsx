@@ -0,0 +1,228 @@
+import { useState, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import PaymentModal from '@/components/payment/PaymentModal';
+import { giftCardAPI } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+
+const emptyGiftCard = {
+  amount: '',
+  recipientEmail: '',
+  message: ''
+};
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm';
+
+export default function GiftCardsPage() {
+  const queryClient = useQueryClient();
+  const { userProfile } = useAuth();
+  const [giftCard, setGiftCard] = useState(emptyGiftCard);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [checkoutPayment, setCheckoutPayment] = useState<any>(null);
+  const [balanceCode, setBalanceCode] = useState('');
+  const [balanceResult, setBalanceResult] = useState('');
+  // Reused when retrying the same purchase after a network failure
+  const purchaseKey = useRef<string>();
+
+  // Fetch the cards the user bought or was given
+  const { data, isLoading, error: fetchError } = useQuery(
+    ['giftCards'],
+    () => giftCardAPI.getMyGiftCards()
+  );
+
+  const giftCards = data?.data?.data || [];
+
+  // Buy a gift card, then take the payment
+  const purchaseGiftCard = useMutation(
+    () => giftCardAPI.purchaseGiftCard({
+      amount: Number(giftCard.amount),
+      recipientEmail: giftCard.recipientEmail || undefined,
+      message: giftCard.message || undefined
+    }, purchaseKey.current),
+    {
+      onSuccess: (response) => {
+        purchaseKey.current = undefined;
+        setError('');
+        setCheckoutPayment(response.data.data);
+      },
+      onError: (error: any) => {
+        if (error.response) {
+          purchaseKey.current = undefined;
+        }
+        setError(error.response?.data?.error?.message || 'Failed to buy gift card');
+      }
+    }
+  );
+
+  const checkBalance = useMutation(
+    () => giftCardAPI.getGiftCardBalance(balanceCode.trim()),
+    {
+      onSuccess: (response) => {
+        const { balance, currency } = response.data.data;
+        setBalanceResult(`${currency} ${balance.toFixed(2)} left to spend`);
+      },
+      onError: (error: any) => {
+        setBalanceResult(error.response?.data?.error?.message || 'Failed to check gift card');
+      }
+    }
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    purchaseKey.current = purchaseKey.current || crypto.randomUUID();
+    purchaseGiftCard.mutate();
+  };
+
+  const handleCheckoutSuccess = () => {
+    setGiftCard(emptyGiftCard);
+    setMessage('Thanks! Your gift card will be ready to use once the payment clears.');
+    // Cards are activated by the payment webhook, so give it a moment
+    setTimeout(() => queryClient.invalidateQueries('giftCards'), 3000);
+  };
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout title="Gift Cards">
+        <div className="mb-8">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Buy a Gift Card</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Gift cards can be spent on any booking or request. Whatever isn't used stays on the card.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-white shadow-sm rounded-lg p-6 space-y-4 mb-8">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="gift-card-amount" className="block text-sm font-medium text-gray-700">Amount ($)</label>
+              <input
+                id="gift-card-amount"
+                type="number"
+                min="1"
+                step="0.01"
+                value={giftCard.amount}
+                onChange={(e) => setGiftCard({ ...giftCard, amount: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="gift-card-recipient" className="block text-sm font-medium text-gray-700">Recipient email (optional)</label>
+              <input
+                id="gift-card-recipient"
+                type="email"
+                value={giftCard.recipientEmail}
+                onChange={(e) => setGiftCard({ ...giftCard, recipientEmail: e.target.value })}
+                placeholder="Leave empty to keep it yourself"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="gift-card-message" className="block text-sm font-medium text-gray-700">Message (optional)</label>
+            <textarea
+              id="gift-card-message"
+              rows={2}
+              maxLength={500}
+              value={giftCard.message}
+              onChange={(e) => setGiftCard({ ...giftCard, message: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {message && <p className="text-sm text-green-700">{message}</p>}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={purchaseGiftCard.isLoading || !giftCard.amount}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+            >
+              {purchaseGiftCard.isLoading ? 'Starting...' : 'Buy Gift Card'}
+            </button>
+          </div>
+        </form>
+
+        <div className="bg-white shadow-sm rounded-lg p-6 mb-8">
+          <label htmlFor="balance-code" className="block text-sm font-medium text-gray-700">Check a balance</label>
+          <div className="mt-1 flex">
+            <input
+              id="balance-code"
+              type="text"
+              value={balanceCode}
+              onChange={(e) => setBalanceCode(e.target.value.toUpperCase())}
+              placeholder="GC-XXXX-XXXX-XXXX"
+              className="block w-full rounded-l-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => checkBalance.mutate()}
+              disabled={checkBalance.isLoading || !balanceCode.trim()}
+              className="px-4 py-2 border border-l-0 border-gray-300 rounded-r-md text-sm font-medium text-gray-700 bg-gray-50 hover:bg-gray-100 disabled:opacity-50"
+            >
+              Check
+            </button>
+          </div>
+          {balanceResult && <p className="mt-2 text-sm text-gray-600">{balanceResult}</p>}
+        </div>
+
+        <div className="mb-4">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">My Gift Cards</h3>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Loading gift cards...</p>
+          </div>
+        ) : fetchError ? (
+          <div className="text-center py-12">
+            <p className="text-red-500">Error loading gift cards. Please try again.</p>
+          </div>
+        ) : giftCards.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-6 text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No gift cards</h3>
+            <p className="text-gray-600">Cards you buy or receive show up here.</p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {giftCards.map((card: any) => (
+              <li key={card._id} className="bg-white shadow-sm rounded-lg p-4 flex items-start justify-between">
+                <div>
+                  <p className="font-medium text-gray-900 font-mono">{card.code}</p>
+                  <p className="text-sm text-gray-500">
+                    {card.currency} {card.balance.toFixed(2)} of {card.initialAmount.toFixed(2)} left
+                    {card.purchaserId !== userProfile?.firebaseId
+                      ? ' · a gift to you'
+                      : card.recipientEmail && ` · for ${card.recipientEmail}`}
+                  </p>
+                  {card.message && <p className="mt-1 text-sm italic text-gray-500">&ldquo;{card.message}&rdquo;</p>}
+                  <p className="mt-1 text-xs text-gray-400">
+                    Bought {format(new Date(card.createdAt), 'MMMM d, yyyy')}
+                  </p>
+                </div>
+                <span className={`px-2 py-1 text-xs rounded-full ${
+                  card.status === 'active'
+                    ? 'bg-green-100 text-green-800'
+                    : 'bg-gray-100 text-gray-800'
+                }`}>
+                  {card.status === 'pending' ? 'Awaiting payment' : card.status.charAt(0).toUpperCase() + card.status.slice(1)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <PaymentModal
+          isOpen={!!checkoutPayment}
+          onClose={() => setCheckoutPayment(null)}
+          paymentInfo={checkoutPayment}
+          onPaymentSuccess={handleCheckoutSuccess}
+          onPaymentError={setError}
+        />
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,292 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { eventAPI, membershipAPI } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+
+const emptyPlan = {
+  name: '',
+  description: '',
+  price: '',
+  bookingsPerPeriod: '',
+  eventIds: [] as string[]
+};
+
+// Plan creation form and list for providers
+const ProviderPlans = ({ providerId }: { providerId: string }) => {
+  const queryClient = useQueryClient();
+  const [plan, setPlan] = useState(emptyPlan);
+  const [error, setError] = useState('');
+
+  const { data: plansData } = useQuery(
+    ['membershipPlans', 'provider', providerId],
+    () => membershipAPI.getPlans({ providerId })
+  );
+
+  const { data: eventsData } = useQuery('myEvents', () => eventAPI.getMyEvents());
+
+  const plans = plansData?.data?.data || [];
+  const recurringEvents = (eventsData?.data?.data || []).filter((event: any) => event.eventType === 'recurring');
+
+  const createPlan = useMutation(
+    () => membershipAPI.createPlan({
+      name: plan.name,
+      description: plan.description || undefined,
+      price: Number(plan.price),
+      bookingsPerPeriod: plan.bookingsPerPeriod ? Number(plan.bookingsPerPeriod) : undefined,
+      eventIds: plan.eventIds
+    }),
+    {
+      onSuccess: () => {
+        setPlan(emptyPlan);
+        setError('');
+        queryClient.invalidateQueries('membershipPlans');
+      },
+      onError: (error: any) => {
+        setError(error.response?.data?.error?.message || 'Failed to create plan');
+      }
+    }
+  );
+
+  const deactivatePlan = useMutation(
+    (id: string) => membershipAPI.deactivatePlan(id),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('membershipPlans');
+      }
+    }
+  );
+
+  const toggleEvent = (eventId: string) => {
+    setPlan({
+      ...plan,
+      eventIds: plan.eventIds.includes(eventId)
+        ? plan.eventIds.filter((id) => id !== eventId)
+        : [...plan.eventIds, eventId]
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createPlan.mutate();
+  };
+
+  return (
+    <div className="mb-10">
+      <h3 className="text-lg font-medium leading-6 text-gray-900">Your Plans</h3>
+      <p className="mt-1 text-sm text-gray-500">
+        Members pay monthly and book your recurring classes without paying each time.
+      </p>
+
+      <form onSubmit={handleSubmit} className="mt-4 bg-white shadow-sm rounded-lg p-6 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="plan-name" className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              id="plan-name"
+              type="text"
+              value={plan.name}
+              onChange={(e) => setPlan({ ...plan, name: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="plan-price" className="block text-sm font-medium text-gray-700">Price per month ($)</label>
+            <input
+              id="plan-price"
+              type="number"
+              min="1"
+              step="0.01"
+              value={plan.price}
+              onChange={(e) => setPlan({ ...plan, price: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="plan-bookings" className="block text-sm font-medium text-gray-700">Bookings per month</label>
+            <input
+              id="plan-bookings"
+              type="number"
+              min="1"
+              value={plan.bookingsPerPeriod}
+              onChange={(e) => setPlan({ ...plan, bookingsPerPeriod: e.target.value })}
+              placeholder="Unlimited"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="plan-description" className="block text-sm font-medium text-gray-700">Description (optional)</label>
+          <textarea
+            id="plan-description"
+            rows={2}
+            value={plan.description}
+            onChange={(e) => setPlan({ ...plan, description: e.target.value })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+          />
+        </div>
+
+        {recurringEvents.length > 0 && (
+          <div>
+            <span className="block text-sm font-medium text-gray-700">Covered classes</span>
+            <p className="text-xs text-gray-500">Leave all unticked to cover every recurring class you host.</p>
+            <div className="mt-2 space-y-1">
+              {recurringEvents.map((event: any) => (
+                <label key={event._id} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={plan.eventIds.includes(event._id)}
+                    onChange={() => toggleEvent(event._id)}
+                    className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  {event.title}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={createPlan.isLoading || !plan.name.trim() || !plan.price}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+          >
+            {createPlan.isLoading ? 'Creating...' : 'Create Plan'}
+          </button>
+        </div>
+      </form>
+
+      {plans.length > 0 && (
+        <ul className="mt-4 space-y-3">
+          {plans.map((existing: any) => (
+            <li key={existing._id} className="bg-white shadow-sm rounded-lg p-4 flex items-center justify-between">
+              <div>
+                <p className="font-medium text-gray-900">{existing.name}</p>
+                <p className="text-sm text-gray-500">
+                  ${existing.price}/month &middot;{' '}
+                  {existing.bookingsPerPeriod ? `${existing.bookingsPerPeriod} bookings a month` : 'Unlimited bookings'}
+                  {existing.eventIds.length > 0 && ` · ${existing.eventIds.length} classes`}
+                </p>
+              </div>
+              <button
+                onClick={() => deactivatePlan.mutate(existing._id)}
+                disabled={deactivatePlan.isLoading}
+                className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+              >
+                Stop offering
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default function MembershipsPage() {
+  const { userProfile } = useAuth();
+  const queryClient = useQueryClient();
+  const isProvider = userProfile?.role === 'provider';
+
+  // Fetch the user's memberships
+  const { data, isLoading, error } = useQuery(
+    ['memberships'],
+    () => membershipAPI.getMyMemberships()
+  );
+
+  const memberships = data?.data?.data || [];
+
+  const cancelMembership = useMutation(
+    (id: string) => membershipAPI.cancelMembership(id),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('memberships');
+      }
+    }
+  );
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout title="Memberships">
+        {isProvider && userProfile?.firebaseId && <ProviderPlans providerId={userProfile.firebaseId} />}
+
+        <div className="mb-4">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">My Memberships</h3>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Loading memberships...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-500">Error loading memberships. Please try again.</p>
+          </div>
+        ) : memberships.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-6 text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No memberships</h3>
+            <p className="text-gray-600">Join a membership from a recurring class to book it without paying each time.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {memberships.map((membership: any) => (
+              <div key={membership._id} className="bg-white shadow-sm rounded-lg p-6">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h4 className="text-base font-medium text-gray-900">{membership.plan?.name || 'Membership'}</h4>
+                    {membership.plan && (
+                      <p className="mt-1 text-sm text-gray-500">
+                        ${membership.plan.price}/month &middot;{' '}
+                        {membership.plan.bookingsPerPeriod
+                          ? `${membership.bookingsUsed} of ${membership.plan.bookingsPerPeriod} bookings used this month`
+                          : `${membership.bookingsUsed} bookings this month`}
+                      </p>
+                    )}
+                    {membership.currentPeriodEnd && membership.status !== 'cancelled' && (
+                      <p className="mt-1 text-sm text-gray-500">
+                        {membership.cancelAtPeriodEnd ? 'Ends' : 'Renews'} on{' '}
+                        {format(new Date(membership.currentPeriodEnd), 'MMMM d, yyyy')}
+                      </p>
+                    )}
+                    {membership.status === 'past_due' && (
+                      <p className="mt-1 text-sm text-red-600">
+                        Your last payment failed. Bookings aren't covered until it goes through.
+                      </p>
+                    )}
+                  </div>
+                  <span className={`px-2 py-1 text-xs rounded-full ${
+                    membership.status === 'active'
+                      ? 'bg-green-100 text-green-800'
+                      : membership.status === 'past_due'
+                      ? 'bg-red-100 text-red-800'
+                      : 'bg-gray-100 text-gray-800'
+                  }`}>
+                    {membership.status.charAt(0).toUpperCase() + membership.status.slice(1).replace(/_/g, ' ')}
+                  </span>
+                </div>
+
+                {membership.status !== 'cancelled' && !membership.cancelAtPeriodEnd && (
+                  <div className="mt-4 flex justify-end">
+                    <button
+                      onClick={() => cancelMembership.mutate(membership._id)}
+                      disabled={cancelMembership.isLoading}
+                      className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Cancel Membership
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
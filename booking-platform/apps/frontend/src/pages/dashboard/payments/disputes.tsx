@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { paymentAPI } from '@/lib/api';
+
+// Disputes the provider can still send evidence for
+const OPEN_DISPUTE_STATUSES = ['needs_response', 'warning_needs_response'];
+
+// Dispute card with the evidence form
+const DisputeCard = ({ dispute }: { dispute: any }) => {
+  const queryClient = useQueryClient();
+  const [evidenceText, setEvidenceText] = useState(dispute.evidence?.text || '');
+  const [error, setError] = useState('');
+
+  const canRespond = OPEN_DISPUTE_STATUSES.includes(dispute.status) && !dispute.evidence?.submittedAt;
+
+  const updateEvidence = useMutation(
+    (submit: boolean) => paymentAPI.updateDisputeEvidence(dispute._id, { evidenceText, submit }),
+    {
+      onSuccess: () => {
+        setError('');
+        queryClient.invalidateQueries('disputes');
+      },
+      onError: (error: any) => {
+        setError(error.response?.data?.error?.message || 'Failed to save evidence');
+      }
+    }
+  );
+
+  const formatAmount = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency.toUpperCase(),
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg p-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h4 className="text-base font-medium text-gray-900">
+            {formatAmount(dispute.amount, dispute.currency)} disputed
+          </h4>
+          <p className="mt-1 text-sm text-gray-500">
+            Opened {formatDate(dispute.createdAt)} &middot; Reason: {dispute.reason.replace(/_/g, ' ')}
+          </p>
+          {dispute.evidenceDueBy && canRespond && (
+            <p className="mt-1 text-sm text-red-600">
+              Evidence due by {formatDate(dispute.evidenceDueBy)}
+            </p>
+          )}
+        </div>
+        <span className={`px-2 py-1 text-xs rounded-full ${
+          dispute.status === 'won' || dispute.status === 'warning_closed'
+            ? 'bg-green-100 text-green-800'
+            : dispute.status === 'lost'
+            ? 'bg-red-100 text-red-800'
+            : 'bg-yellow-100 text-yellow-800'
+        }`}>
+          {dispute.status.charAt(0).toUpperCase() + dispute.status.slice(1).replace(/_/g, ' ')}
+        </span>
+      </div>
+
+      {canRespond ? (
+        <div className="mt-4">
+          <label htmlFor={`evidence-${dispute._id}`} className="block text-sm font-medium text-gray-700">
+            Evidence
+          </label>
+          <textarea
+            id={`evidence-${dispute._id}`}
+            rows={5}
+            value={evidenceText}
+            onChange={(e) => setEvidenceText(e.target.value)}
+            placeholder="Describe the service you provided, any communication with the customer, and why the charge is valid."
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+          />
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+          <div className="mt-3 flex justify-end space-x-3">
+            <button
+              onClick={() => updateEvidence.mutate(false)}
+              disabled={updateEvidence.isLoading || !evidenceText.trim()}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Save Draft
+            </button>
+            <button
+              onClick={() => updateEvidence.mutate(true)}
+              disabled={updateEvidence.isLoading || !evidenceText.trim()}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+            >
+              {updateEvidence.isLoading ? 'Saving...' : 'Submit Evidence'}
+            </button>
+          </div>
+        </div>
+      ) : dispute.evidence?.text ? (
+        <div className="mt-4">
+          <h5 className="text-sm font-medium text-gray-700">
+            Evidence {dispute.evidence.submittedAt ? `submitted ${formatDate(dispute.evidence.submittedAt)}` : ''}
+          </h5>
+          <p className="mt-1 text-sm text-gray-600 whitespace-pre-line">{dispute.evidence.text}</p>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default function DisputesPage() {
+  const [filter, setFilter] = useState('open'); // 'open', 'all'
+
+  // Fetch disputes
+  const { data, isLoading, error } = useQuery(
+    ['disputes'],
+    () => paymentAPI.getMyDisputes()
+  );
+
+  const disputes = data?.data?.data || [];
+
+  const filteredDisputes = disputes.filter((dispute: any) => {
+    if (filter === 'all') {
+      return true;
+    }
+    return !dispute.closedAt;
+  });
+
+  return (
+    <ProtectedRoute roleRequired="provider">
+      <DashboardLayout title="Disputes">
+        <div className="mb-8">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">
+            Payment Disputes
+          </h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Customers can dispute a payment with their bank. Respond with evidence before the deadline to keep the payment.
+          </p>
+        </div>
+
+        {/* Filter tabs */}
+        <div className="border-b border-gray-200 mb-6">
+          <nav className="-mb-px flex space-x-8">
+            {['open', 'all'].map((filterOption) => (
+              <button
+                key={filterOption}
+                onClick={() => setFilter(filterOption)}
+                className={`${
+                  filter === filterOption
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                } whitespace-nowrap pb-4 px-1 border-b-2 font-medium text-sm capitalize`}
+              >
+                {filterOption}
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Loading disputes...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-500">Error loading disputes. Please try again.</p>
+          </div>
+        ) : filteredDisputes.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-6 text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No disputes</h3>
+            <p className="text-gray-600">
+              {filter === 'open'
+                ? "You don't have any open disputes."
+                : "None of your payments have been disputed."}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {filteredDisputes.map((dispute: any) => (
+              <DisputeCard key={dispute._id} dispute={dispute} />
+            ))}
+          </div>
+        )}
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -9,7 +9,7 @@ import { useAuth } from '@/contexts/AuthContext';
 export default function PaymentsPage() {
   const router = useRouter();
   const { userProfile } = useAuth();
-  const [filter, setFilter] = useState('all'); // 'all', 'completed', 'failed', 'refunded'
+  const [filter, setFilter] = useState('all'); // 'all', 'completed', 'failed', 'partially_refunded', 'refunded'
   
   // Determine if user is a provider
   const isProvider = userProfile?.role === 'provider';
@@ -64,7 +64,7 @@ export default function PaymentsPage() {
         {/* Filter tabs */}
         <div className="border-b border-gray-200 mb-6">
           <nav className="-mb-px flex space-x-8">
-            {['all', 'completed', 'pending', 'failed', 'refunded'].map((filterOption) => (
+            {['all', 'completed', 'pending', 'failed', 'partially_refunded', 'refunded'].map((filterOption) => (
               <button
                 key={filterOption}
                 onClick={() => setFilter(filterOption)}
@@ -74,7 +74,7 @@ export default function PaymentsPage() {
                     : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
                 } whitespace-nowrap pb-4 px-1 border-b-2 font-medium text-sm capitalize`}
               >
-                {filterOption}
+                {filterOption.replace('_', ' ')}
               </button>
             ))}
           </nav>
@@ -148,6 +148,11 @@ export default function PaymentsPage() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {formatAmount(transaction.amount, transaction.currency)}
+                      {transaction.amountRefunded > 0 && (
+                        <p className="text-xs text-gray-500">
+                          {formatAmount(transaction.amountRefunded, transaction.currency)} refunded
+                        </p>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm">
                       <span className={`px-2 py-1 text-xs rounded-full ${
@@ -155,11 +160,11 @@ export default function PaymentsPage() {
                           ? 'bg-green-100 text-green-800'
                           : transaction.status === 'pending'
                           ? 'bg-yellow-100 text-yellow-800'
-                          : transaction.status === 'refunded'
+                          : transaction.status === 'refunded' || transaction.status === 'partially_refunded'
                           ? 'bg-blue-100 text-blue-800'
                           : 'bg-red-100 text-red-800'
                       }`}>
-                        {transaction.status.charAt(0).toUpperCase() + transaction.status.slice(1)}
+                        {transaction.status.charAt(0).toUpperCase() + transaction.status.slice(1).replace('_', ' ')}
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
@@ -200,6 +205,24 @@ export default function PaymentsPage() {
               </p>
             </div>
             
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h4 className="text-base font-medium text-gray-900">Disputes</h4>
+                  <p className="mt-1 text-sm text-gray-600">
+                    Respond to customers disputing payments for your bookings and requests
+                  </p>
+                </div>
+                
+                <button
+                  onClick={() => router.push('/dashboard/payments/disputes')}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                >
+                  View Disputes
+                </button>
+              </div>
+            </div>
+            
             <div className="p-6">
               <div className="flex items-center justify-between">
                 <div>
@@ -0,0 +1,308 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { eventAPI, promoAPI } from '@/lib/api';
+
+const emptyPromo = {
+  code: '',
+  description: '',
+  discountType: 'percentage',
+  value: '',
+  appliesTo: 'all',
+  eventIds: [] as string[],
+  firstTimeOnly: false,
+  maxRedemptions: '',
+  maxRedemptionsPerUser: '',
+  validFrom: '',
+  validUntil: ''
+};
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm';
+
+export default function PromoCodesPage() {
+  const queryClient = useQueryClient();
+  const [promo, setPromo] = useState(emptyPromo);
+  const [error, setError] = useState('');
+
+  // Fetch the provider's codes
+  const { data, isLoading, error: fetchError } = useQuery(
+    ['promoCodes'],
+    () => promoAPI.getMyPromoCodes()
+  );
+
+  const { data: eventsData } = useQuery('myEvents', () => eventAPI.getMyEvents());
+
+  const promoCodes = data?.data?.data || [];
+  const events = eventsData?.data?.data || [];
+
+  const createPromo = useMutation(
+    () => promoAPI.createPromoCode({
+      code: promo.code,
+      description: promo.description || undefined,
+      discountType: promo.discountType,
+      value: Number(promo.value),
+      appliesTo: promo.appliesTo,
+      eventIds: promo.eventIds,
+      firstTimeOnly: promo.firstTimeOnly,
+      maxRedemptions: promo.maxRedemptions ? Number(promo.maxRedemptions) : undefined,
+      maxRedemptionsPerUser: promo.maxRedemptionsPerUser ? Number(promo.maxRedemptionsPerUser) : undefined,
+      validFrom: promo.validFrom ? new Date(promo.validFrom).toISOString() : undefined,
+      validUntil: promo.validUntil ? new Date(promo.validUntil).toISOString() : undefined
+    }),
+    {
+      onSuccess: () => {
+        setPromo(emptyPromo);
+        setError('');
+        queryClient.invalidateQueries('promoCodes');
+      },
+      onError: (error: any) => {
+        setError(error.response?.data?.error?.message || 'Failed to create promo code');
+      }
+    }
+  );
+
+  const deactivatePromo = useMutation(
+    (id: string) => promoAPI.deactivatePromoCode(id),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('promoCodes');
+      }
+    }
+  );
+
+  const toggleEvent = (eventId: string) => {
+    setPromo({
+      ...promo,
+      eventIds: promo.eventIds.includes(eventId)
+        ? promo.eventIds.filter((id) => id !== eventId)
+        : [...promo.eventIds, eventId]
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createPromo.mutate();
+  };
+
+  const describeDiscount = (promoCode: any) => {
+    return promoCode.discountType === 'percentage' ? `${promoCode.value}% off` : `$${promoCode.value} off`;
+  };
+
+  return (
+    <ProtectedRoute roleRequired="provider">
+      <DashboardLayout title="Promo Codes">
+        <div className="mb-8">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Promo Codes</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Discounts come off the price before the platform fee, and payouts are split from the discounted amount.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-white shadow-sm rounded-lg p-6 space-y-4 mb-8">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="promo-code" className="block text-sm font-medium text-gray-700">Code</label>
+              <input
+                id="promo-code"
+                type="text"
+                value={promo.code}
+                onChange={(e) => setPromo({ ...promo, code: e.target.value.toUpperCase() })}
+                placeholder="SUMMER10"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="promo-type" className="block text-sm font-medium text-gray-700">Discount</label>
+              <select
+                id="promo-type"
+                value={promo.discountType}
+                onChange={(e) => setPromo({ ...promo, discountType: e.target.value })}
+                className={inputClassName}
+              >
+                <option value="percentage">Percentage off</option>
+                <option value="fixed">Fixed amount off</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="promo-value" className="block text-sm font-medium text-gray-700">
+                {promo.discountType === 'percentage' ? 'Percent' : 'Amount ($)'}
+              </label>
+              <input
+                id="promo-value"
+                type="number"
+                min="0"
+                step="0.01"
+                value={promo.value}
+                onChange={(e) => setPromo({ ...promo, value: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="promo-applies" className="block text-sm font-medium text-gray-700">Use on</label>
+              <select
+                id="promo-applies"
+                value={promo.appliesTo}
+                onChange={(e) => setPromo({ ...promo, appliesTo: e.target.value })}
+                className={inputClassName}
+              >
+                <option value="all">Bookings and requests</option>
+                <option value="bookings">Bookings only</option>
+                <option value="requests">Requests only</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="promo-max" className="block text-sm font-medium text-gray-700">Total uses</label>
+              <input
+                id="promo-max"
+                type="number"
+                min="1"
+                value={promo.maxRedemptions}
+                onChange={(e) => setPromo({ ...promo, maxRedemptions: e.target.value })}
+                placeholder="Unlimited"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="promo-max-user" className="block text-sm font-medium text-gray-700">Uses per customer</label>
+              <input
+                id="promo-max-user"
+                type="number"
+                min="1"
+                value={promo.maxRedemptionsPerUser}
+                onChange={(e) => setPromo({ ...promo, maxRedemptionsPerUser: e.target.value })}
+                placeholder="Unlimited"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="promo-from" className="block text-sm font-medium text-gray-700">Valid from (optional)</label>
+              <input
+                id="promo-from"
+                type="datetime-local"
+                value={promo.validFrom}
+                onChange={(e) => setPromo({ ...promo, validFrom: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="promo-until" className="block text-sm font-medium text-gray-700">Valid until (optional)</label>
+              <input
+                id="promo-until"
+                type="datetime-local"
+                value={promo.validUntil}
+                onChange={(e) => setPromo({ ...promo, validUntil: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="promo-description" className="block text-sm font-medium text-gray-700">Description (optional)</label>
+            <input
+              id="promo-description"
+              type="text"
+              value={promo.description}
+              onChange={(e) => setPromo({ ...promo, description: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={promo.firstTimeOnly}
+              onChange={(e) => setPromo({ ...promo, firstTimeOnly: e.target.checked })}
+              className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            First-time customers only
+          </label>
+
+          {events.length > 0 && promo.appliesTo !== 'requests' && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700">Limit to events</span>
+              <p className="text-xs text-gray-500">Leave all unticked to allow any of your events.</p>
+              <div className="mt-2 space-y-1">
+                {events.map((event: any) => (
+                  <label key={event._id} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={promo.eventIds.includes(event._id)}
+                      onChange={() => toggleEvent(event._id)}
+                      className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    {event.title}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={createPromo.isLoading || !promo.code.trim() || !promo.value}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+            >
+              {createPromo.isLoading ? 'Creating...' : 'Create Code'}
+            </button>
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Loading promo codes...</p>
+          </div>
+        ) : fetchError ? (
+          <div className="text-center py-12">
+            <p className="text-red-500">Error loading promo codes. Please try again.</p>
+          </div>
+        ) : promoCodes.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-6 text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No promo codes</h3>
+            <p className="text-gray-600">Create a code above to offer customers a discount.</p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {promoCodes.map((promoCode: any) => (
+              <li key={promoCode._id} className="bg-white shadow-sm rounded-lg p-4 flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {promoCode.code}
+                    <span className="ml-2 text-sm font-normal text-gray-500">{describeDiscount(promoCode)}</span>
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    Used {promoCode.redemptionCount}{promoCode.maxRedemptions ? ` of ${promoCode.maxRedemptions}` : ''} times
+                    {promoCode.firstTimeOnly && ' · first-time customers'}
+                    {promoCode.eventIds.length > 0 && ` · ${promoCode.eventIds.length} events`}
+                    {promoCode.validUntil && ` · until ${format(new Date(promoCode.validUntil), 'MMM d, yyyy')}`}
+                  </p>
+                </div>
+                {promoCode.isActive ? (
+                  <button
+                    onClick={() => deactivatePromo.mutate(promoCode._id)}
+                    disabled={deactivatePromo.isLoading}
+                    className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                  >
+                    Deactivate
+                  </button>
+                ) : (
+                  <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-800">Inactive</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
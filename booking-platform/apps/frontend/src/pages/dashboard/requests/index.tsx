@@ -9,7 +9,7 @@ import { useAuth } from '@/contexts/AuthContext';
 export default function RequestsPage() {
   const router = useRouter();
   const { userProfile } = useAuth();
-  const [filter, setFilter] = useState('all'); // 'all', 'pending', 'accepted', 'rejected'
+  const [filter, setFilter] = useState('all'); // 'all', 'pending', 'accepted', 'rejected', 'expired', 'shared'
   
   // Determine if user is a provider
   const isProvider = userProfile?.role === 'provider';
@@ -20,6 +20,8 @@ export default function RequestsPage() {
     () => {
       if (isProvider) {
         return requestAPI.getCreatorRequests({ status: filter !== 'all' ? filter : undefined });
+      } else if (filter === 'shared') {
+        return requestAPI.getSharedRequests();
       } else {
         return requestAPI.getMyRequests({ status: filter !== 'all' ? filter : undefined });
       }
@@ -51,7 +53,7 @@ export default function RequestsPage() {
         {/* Filter tabs */}
         <div className="border-b border-gray-200 mb-6">
           <nav className="-mb-px flex space-x-8">
-            {['all', 'pending', 'accepted', 'rejected'].map((filterOption) => (
+            {['all', 'pending', 'accepted', 'rejected', 'expired', ...(isProvider ? [] : ['shared'])].map((filterOption) => (
               <button
                 key={filterOption}
                 onClick={() => setFilter(filterOption)}
@@ -88,6 +90,10 @@ export default function RequestsPage() {
                 ? "No pending requests."
                 : filter === 'accepted'
                 ? "No accepted requests."
+                : filter === 'shared'
+                ? "Nobody has asked you to split a bill yet."
+                : filter === 'expired'
+                ? "No expired requests."
                 : "No rejected requests."}
             </p>
             {!isProvider && (
@@ -116,11 +122,19 @@ export default function RequestsPage() {
                             ? 'bg-yellow-100 text-yellow-800'
                             : request.status === 'accepted'
                             ? 'bg-green-100 text-green-800'
+                            : request.status === 'expired'
+                            ? 'bg-gray-100 text-gray-800'
                             : 'bg-red-100 text-red-800'
                         }`}>
                           {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
                         </span>
                         
+                        {request.status === 'pending' && request.responseDeadline && (
+                          <span className="ml-2 text-sm text-gray-600">
+                            Answer by {formatDateTime(request.responseDeadline)}
+                          </span>
+                        )}
+                        
                         {isProvider ? (
                           // Provider view
                           <>
@@ -183,9 +197,256 @@ import { useRouter } from 'next/router';
 import { useQuery, useMutation } from 'react-query';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import PaymentModal from '@/components/payment/PaymentModal';
 import { requestAPI, paymentAPI } from '@/lib/api';
 import { useAuth } from '@/contexts/AuthContext';
-import { useState } from 'react';
+import { useState, useRef } from 'react';
+import { format } from 'date-fns';
+
+const roleLabels: Record<string, string> = {
+  requester: 'Customer',
+  creator: 'Instructor',
+  venue: 'Venue'
+};
+
+const toDateTimeInput = (date: string | Date) => format(new Date(date), "yyyy-MM-dd'T'HH:mm");
+
+// Offers and counter-offers on a request, with a form to make a new one
+const NegotiationThread = ({ request, roles }: { request: any; roles: string[] }) => {
+  const router = useRouter();
+  const proposals = [...(request.negotiation?.proposals || [])].reverse();
+  const openProposal = proposals.find((proposal: any) => proposal.status === 'open');
+  const base = openProposal || { ...request.priceBreakdown, ...request };
+  const canNegotiate = request.status !== 'rejected' && request.paymentStatus === 'unpaid' && !request.splitPayment?.status;
+  const [isProposing, setIsProposing] = useState(false);
+  const [error, setError] = useState('');
+  const [offer, setOffer] = useState({
+    creatorFee: String(base.creatorFee),
+    venueFee: String(base.venueFee),
+    start: toDateTimeInput(base.desiredDateTime.start),
+    end: toDateTimeInput(base.desiredDateTime.end),
+    attendeesCount: String(base.attendeesCount),
+    message: ''
+  });
+
+  const proposeTerms = useMutation(
+    (data: any) => requestAPI.proposeTerms(request._id, data),
+    {
+      onSuccess: () => router.reload(),
+      onError: (error: any) => {
+        setError(error.response?.data?.error?.message || 'Failed to send offer');
+      }
+    }
+  );
+
+  const respondToProposal = useMutation(
+    ({ version, response }: { version: number; response: string }) =>
+      requestAPI.respondToProposal(request._id, version, { response }),
+    {
+      onSuccess: () => router.reload(),
+      onError: (error: any) => {
+        setError(error.response?.data?.error?.message || 'Failed to answer offer');
+      }
+    }
+  );
+
+  const handlePropose = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    // Only send what was changed, so the offer keeps everything else as it is
+    const timeChanged = offer.start !== toDateTimeInput(base.desiredDateTime.start) ||
+      offer.end !== toDateTimeInput(base.desiredDateTime.end);
+    proposeTerms.mutate({
+      creatorFee: Number(offer.creatorFee) !== base.creatorFee ? Number(offer.creatorFee) : undefined,
+      venueFee: Number(offer.venueFee) !== base.venueFee ? Number(offer.venueFee) : undefined,
+      desiredDateTime: timeChanged
+        ? { start: new Date(offer.start).toISOString(), end: new Date(offer.end).toISOString() }
+        : undefined,
+      attendeesCount: Number(offer.attendeesCount) !== base.attendeesCount ? Number(offer.attendeesCount) : undefined,
+      message: offer.message || undefined
+    });
+  };
+
+  const canChangeCreatorFee = roles.includes('creator') || roles.includes('requester');
+  const canChangeVenueFee = roles.includes('venue') || roles.includes('requester');
+  const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm';
+
+  if (proposals.length === 0 && !canNegotiate) {
+    return null;
+  }
+
+  return (
+    <div className="p-6 border-b border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-sm font-medium text-gray-700">Offers</h4>
+        {canNegotiate && !isProposing && (
+          <button
+            onClick={() => setIsProposing(true)}
+            className="text-sm font-medium text-primary-600 hover:text-primary-700"
+          >
+            {openProposal ? 'Counter' : 'Make an offer'}
+          </button>
+        )}
+      </div>
+
+      {isProposing && (
+        <form onSubmit={handlePropose} className="mb-6 bg-gray-50 p-4 rounded-md space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="offer-creator-fee" className="block text-sm font-medium text-gray-700">Instructor fee ($)</label>
+              <input
+                id="offer-creator-fee"
+                type="number"
+                min="0"
+                step="0.01"
+                value={offer.creatorFee}
+                disabled={!canChangeCreatorFee}
+                onChange={(e) => setOffer({ ...offer, creatorFee: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="offer-venue-fee" className="block text-sm font-medium text-gray-700">Venue fee ($)</label>
+              <input
+                id="offer-venue-fee"
+                type="number"
+                min="0"
+                step="0.01"
+                value={offer.venueFee}
+                disabled={!canChangeVenueFee}
+                onChange={(e) => setOffer({ ...offer, venueFee: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="offer-attendees" className="block text-sm font-medium text-gray-700">Attendees</label>
+              <input
+                id="offer-attendees"
+                type="number"
+                min="1"
+                value={offer.attendeesCount}
+                onChange={(e) => setOffer({ ...offer, attendeesCount: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="offer-start" className="block text-sm font-medium text-gray-700">Starts</label>
+              <input
+                id="offer-start"
+                type="datetime-local"
+                value={offer.start}
+                onChange={(e) => setOffer({ ...offer, start: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="offer-end" className="block text-sm font-medium text-gray-700">Ends</label>
+              <input
+                id="offer-end"
+                type="datetime-local"
+                value={offer.end}
+                onChange={(e) => setOffer({ ...offer, end: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="offer-message" className="block text-sm font-medium text-gray-700">Message (optional)</label>
+            <textarea
+              id="offer-message"
+              rows={2}
+              maxLength={1000}
+              value={offer.message}
+              onChange={(e) => setOffer({ ...offer, message: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setIsProposing(false)}
+              className="px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={proposeTerms.isLoading}
+              className="px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+            >
+              {proposeTerms.isLoading ? 'Sending...' : 'Send Offer'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      <ul className="space-y-3">
+        {proposals.map((proposal: any) => {
+          const awaitingMe = proposal.status === 'open' && proposal.awaiting.some((role: string) => roles.includes(role));
+
+          return (
+            <li key={proposal._id} className="border border-gray-200 rounded-md p-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    Version {proposal.version} from {proposal.proposerRoles.map((role: string) => roleLabels[role]).join(' & ')}
+                  </p>
+                  <p className="mt-1 text-sm text-gray-600">
+                    Instructor ${proposal.creatorFee} &middot; Venue ${proposal.venueFee} &middot;{' '}
+                    {proposal.attendeesCount} people &middot;{' '}
+                    {new Date(proposal.desiredDateTime.start).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} -{' '}
+                    {new Date(proposal.desiredDateTime.end).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                  {proposal.message && <p className="mt-1 text-sm italic text-gray-500">{proposal.message}</p>}
+                  {proposal.status === 'open' && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Waiting for {proposal.awaiting.map((role: string) => roleLabels[role]).join(' & ')}
+                    </p>
+                  )}
+                </div>
+                <span className={`px-2 py-1 text-xs rounded-full ${
+                  proposal.status === 'open'
+                    ? 'bg-yellow-100 text-yellow-800'
+                    : proposal.status === 'accepted'
+                    ? 'bg-green-100 text-green-800'
+                    : 'bg-gray-100 text-gray-800'
+                }`}>
+                  {proposal.version === request.negotiation.agreedVersion
+                    ? 'Agreed'
+                    : proposal.status.charAt(0).toUpperCase() + proposal.status.slice(1)}
+                </span>
+              </div>
+
+              {awaitingMe && (
+                <div className="mt-3 flex justify-end space-x-3">
+                  <button
+                    onClick={() => respondToProposal.mutate({ version: proposal.version, response: 'decline' })}
+                    disabled={respondToProposal.isLoading}
+                    className="px-3 py-1 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Decline
+                  </button>
+                  <button
+                    onClick={() => respondToProposal.mutate({ version: proposal.version, response: 'accept' })}
+                    disabled={respondToProposal.isLoading}
+                    className="px-3 py-1 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    Accept
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
 
 export default function RequestDetailsPage() {
   const router = useRouter();
@@ -193,6 +454,13 @@ export default function RequestDetailsPage() {
   const { userProfile } = useAuth();
   const [isPaymentProcessing, setIsPaymentProcessing] = useState(false);
   const [paymentError, setPaymentError] = useState('');
+  const [splitEmails, setSplitEmails] = useState('');
+  const [splitDeadline, setSplitDeadline] = useState('');
+  const [splitError, setSplitError] = useState('');
+  const [checkoutPayment, setCheckoutPayment] = useState<any>(null);
+  const [convertError, setConvertError] = useState('');
+  // Reused when retrying the same payment attempt after a network failure
+  const paymentKey = useRef<string>();
   
   // Determine if user is a provider
   const isProvider = userProfile?.role === 'provider';
@@ -219,18 +487,47 @@ export default function RequestDetailsPage() {
     }
   );
   
+  // Mutation for retrying the booking of an accepted request
+  const convertRequest = useMutation(
+    () => requestAPI.convertRequest(id as string),
+    {
+      onSuccess: () => {
+        router.reload();
+      },
+      onError: (error: any) => {
+        setConvertError(error.response?.data?.error?.message || 'Failed to book the request');
+      }
+    }
+  );
+  
+  // Mutation for splitting the bill with co-payers
+  const createSplit = useMutation(
+    (data: any) => requestAPI.createSplitPayment(id as string, data),
+    {
+      onSuccess: () => {
+        router.reload();
+      },
+      onError: (error: any) => {
+        setSplitError(error.response?.data?.error?.message || 'Failed to split the bill');
+      }
+    }
+  );
+  
   // Mutation for initiating payment
   const initiatePayment = useMutation(
-    (data: any) => paymentAPI.initiatePayment(data),
+    (data: any) => paymentAPI.initiatePayment(data, paymentKey.current),
     {
-      onSuccess: (data) => {
-        // Redirect to payment page or handle client-side payment
-        console.log('Payment initiated:', data);
-        // In a real app, you would redirect to a payment page or open a Stripe checkout
-        alert('Payment initiated successfully! In a real app, this would open a payment form.');
-        router.reload();
+      onSuccess: (response, data) => {
+        paymentKey.current = undefined;
+        setIsPaymentProcessing(false);
+        // Kept so a gift card can restart the same payment
+        setCheckoutPayment({ ...response.data.data, request: data });
       },
       onError: (error: any) => {
+        // The server answered, so the next attempt is a new payment
+        if (error.response) {
+          paymentKey.current = undefined;
+        }
         setPaymentError(error.response?.data?.error?.message || 'Failed to initiate payment');
         setIsPaymentProcessing(false);
       }
@@ -245,20 +542,58 @@ export default function RequestDetailsPage() {
     });
   };
   
+  // With a deposit the customer pays it first, and the balance by hand only if charging it failed
+  const amountDue = request?.deposit?.balanceStatus
+    ? (request.paymentStatus === 'unpaid' ? request.deposit.amount : request.deposit.balanceAmount)
+    : request?.priceBreakdown.totalCost;
+  
+  // On a split bill each person pays their own share, and the requester can cover the rest
+  const split = request?.splitPayment?.status ? request.splitPayment : null;
+  const isRequester = request?.userId === userProfile?.firebaseId;
+  // Which sides of the negotiation the user is on; a provider who isn't the creator is the venue
+  const myRoles = [
+    ...(request?.userId === userProfile?.firebaseId ? ['requester'] : []),
+    ...(request?.creatorId === userProfile?.firebaseId ? ['creator'] : []),
+    ...(isProvider && request?.creatorId !== userProfile?.firebaseId ? ['venue'] : [])
+  ];
+  const myShare = split?.shares.find((share: any) => share.email === userProfile?.email?.toLowerCase());
+  const outstandingShares = split?.shares.filter((share: any) => share.status === 'invited' || share.status === 'pending') || [];
+  const outstandingAmount = outstandingShares.reduce((sum: number, share: any) => sum + share.amount, 0).toFixed(2);
+  
   // Handle payment from customer
-  const handlePayment = () => {
+  const handlePayment = (amount: number, details: Record<string, any> = {}) => {
     setIsPaymentProcessing(true);
     setPaymentError('');
     
+    paymentKey.current = paymentKey.current || crypto.randomUUID();
     initiatePayment.mutate({
       requestId: id,
-      amount: request.priceBreakdown.totalCost,
+      amount,
       currency: 'USD',
       description: `Payment for ${request.title}`,
       metadata: {
         requestId: id,
         title: request.title
-      }
+      },
+      ...details
+    });
+  };
+  
+  // Restart the current payment with a gift card taken off
+  const handleApplyGiftCard = async (code: string) => {
+    const response = await paymentAPI.initiatePayment(
+      { ...checkoutPayment.request, giftCardCode: code },
+      crypto.randomUUID()
+    );
+    return response.data.data;
+  };
+  
+  // Handle the requester splitting the bill
+  const handleSplit = () => {
+    setSplitError('');
+    createSplit.mutate({
+      emails: splitEmails.split(/[\s,]+/).filter(Boolean),
+      deadline: splitDeadline ? new Date(splitDeadline).toISOString() : undefined
     });
   };
   
@@ -328,6 +663,8 @@ export default function RequestDetailsPage() {
                   ? 'bg-yellow-100 text-yellow-800'
                   : request.status === 'accepted'
                   ? 'bg-green-100 text-green-800'
+                  : request.status === 'expired'
+                  ? 'bg-gray-100 text-gray-800'
                   : 'bg-red-100 text-red-800'
               }`}>
                 {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
@@ -345,6 +682,12 @@ export default function RequestDetailsPage() {
                     <dt className="text-sm font-medium text-gray-500">Status:</dt>
                     <dd className="text-sm text-gray-900">{request.status.charAt(0).toUpperCase() + request.status.slice(1)}</dd>
                   </div>
+                  {request.status === 'pending' && request.responseDeadline && (
+                    <div className="flex justify-between">
+                      <dt className="text-sm font-medium text-gray-500">Answer by:</dt>
+                      <dd className="text-sm text-gray-900">{formatDateTime(request.responseDeadline)}</dd>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <dt className="text-sm font-medium text-gray-500">Date:</dt>
                     <dd className="text-sm text-gray-900">{new Date(request.desiredDateTime.start).toLocaleDateString()}</dd>
@@ -369,6 +712,12 @@ export default function RequestDetailsPage() {
                     <dt className="text-sm font-medium text-gray-500">Attendees:</dt>
                     <dd className="text-sm text-gray-900">{request.attendeesCount} people</dd>
                   </div>
+                  {request.conversion?.status === 'completed' && (
+                    <div className="flex justify-between">
+                      <dt className="text-sm font-medium text-gray-500">Booking:</dt>
+                      <dd className="text-sm text-gray-900">Booked as a private event</dd>
+                    </div>
+                  )}
                 </dl>
               </div>
               
@@ -389,6 +738,12 @@ export default function RequestDetailsPage() {
                     <dt className="text-sm font-medium text-gray-500">Instructor Fee:</dt>
                     <dd className="text-sm text-gray-900">${request.priceBreakdown.creatorFee}</dd>
                   </div>
+                  {request.discount?.amount > 0 && (
+                    <div className="flex justify-between">
+                      <dt className="text-sm font-medium text-gray-500">Promo ({request.discount.code}):</dt>
+                      <dd className="text-sm text-green-700">-${request.discount.amount}</dd>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <dt className="text-sm font-medium text-gray-500">Platform Fee:</dt>
                     <dd className="text-sm text-gray-900">${request.priceBreakdown.platformFee}</dd>
@@ -397,6 +752,23 @@ export default function RequestDetailsPage() {
                     <dt className="text-sm text-gray-500">Total:</dt>
                     <dd className="text-sm text-gray-900">${request.priceBreakdown.totalCost}</dd>
                   </div>
+                  {request.deposit?.balanceStatus && (
+                    <>
+                      <div className="flex justify-between">
+                        <dt className="text-sm font-medium text-gray-500">Deposit ({request.deposit.percentage}%):</dt>
+                        <dd className="text-sm text-gray-900">${request.deposit.amount}</dd>
+                      </div>
+                      <div className="flex justify-between">
+                        <dt className="text-sm font-medium text-gray-500">Balance:</dt>
+                        <dd className="text-sm text-gray-900">
+                          ${request.deposit.balanceAmount}
+                          {request.deposit.balanceStatus === 'paid'
+                            ? ' (paid)'
+                            : ` due ${new Date(request.deposit.balanceDueAt).toLocaleDateString()}`}
+                        </dd>
+                      </div>
+                    </>
+                  )}
                 </dl>
               </div>
             </div>
@@ -450,8 +822,24 @@ export default function RequestDetailsPage() {
             </div>
           </div>
           
+          <NegotiationThread request={request} roles={myRoles} />
+          
           {/* Actions */}
           <div className="p-6">
+            {request.status === 'accepted' && request.conversion?.status === 'failed' && (
+              <div className="mb-4 p-4 bg-red-50 border-l-4 border-red-400 text-red-700">
+                <p>The request was accepted but could not be booked: {request.conversion.failureMessage}</p>
+                {convertError && <p className="mt-1 text-sm">{convertError}</p>}
+                <button
+                  onClick={() => convertRequest.mutate()}
+                  disabled={convertRequest.isLoading}
+                  className="mt-2 px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+                >
+                  {convertRequest.isLoading ? 'Booking...' : 'Try Again'}
+                </button>
+              </div>
+            )}
+            
             {isProvider ? (
               // Provider actions
               <>
@@ -480,6 +868,12 @@ export default function RequestDetailsPage() {
                   </div>
                 )}
                 
+                {request.status === 'accepted' && request.paymentStatus === 'partial' && request.deposit?.balanceStatus && (
+                  <div className="p-4 bg-green-50 border-l-4 border-green-400 text-green-700">
+                    <p>Deposit paid. This booking is confirmed and the balance will be collected before the start date.</p>
+                  </div>
+                )}
+                
                 {request.status === 'accepted' && request.paymentStatus === 'paid' && (
                   <div className="p-4 bg-green-50 border-l-4 border-green-400 text-green-700">
                     <p>Payment completed. This booking is confirmed.</p>
@@ -495,10 +889,146 @@ export default function RequestDetailsPage() {
                   </div>
                 )}
                 
-                {request.status === 'accepted' && request.paymentStatus === 'unpaid' && (
+                {request.status === 'accepted' && request.paymentStatus === 'unpaid' && !split && isRequester && (
                   <div className="space-y-4">
                     <div className="p-4 bg-green-50 border-l-4 border-green-400 text-green-700">
-                      <p>Your request has been approved! Complete payment to confirm your booking.</p>
+                      <p>
+                        {request.deposit?.balanceStatus
+                          ? `Your request has been approved! Pay the ${request.deposit.percentage}% deposit to confirm your booking. The balance of $${request.deposit.balanceAmount} will be charged to the same card on ${new Date(request.deposit.balanceDueAt).toLocaleDateString()}.`
+                          : 'Your request has been approved! Complete payment to confirm your booking.'}
+                      </p>
+                    </div>
+                    
+                    {paymentError && (
+                      <div className="p-4 bg-red-50 border-l-4 border-red-400 text-red-700">
+                        <p>{paymentError}</p>
+                      </div>
+                    )}
+                    
+                    <div className="flex justify-end">
+                      <button
+                        onClick={() => handlePayment(amountDue)}
+                        disabled={isPaymentProcessing}
+                        className="px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50"
+                      >
+                        {isPaymentProcessing ? 'Processing...' : `Pay $${amountDue}`}
+                      </button>
+                    </div>
+                    
+                    {!request.deposit?.balanceStatus && request.attendeesCount > 1 && (
+                      <div className="pt-4 border-t border-gray-200 space-y-3">
+                        <h4 className="text-sm font-medium text-gray-700">Split the Bill</h4>
+                        <p className="text-sm text-gray-500">
+                          Invite the people coming with you to pay an equal share. The booking is confirmed once every share is paid.
+                        </p>
+                        
+                        {splitError && (
+                          <div className="p-4 bg-red-50 border-l-4 border-red-400 text-red-700">
+                            <p>{splitError}</p>
+                          </div>
+                        )}
+                        
+                        <div>
+                          <label htmlFor="splitEmails" className="block text-sm font-medium text-gray-700">
+                            Co-payer Emails
+                          </label>
+                          <textarea
+                            id="splitEmails"
+                            rows={2}
+                            value={splitEmails}
+                            onChange={(e) => setSplitEmails(e.target.value)}
+                            className="mt-1 block w-full shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm border-gray-300 rounded-md"
+                            placeholder="friend@example.com, colleague@example.com"
+                          />
+                        </div>
+                        
+                        <div>
+                          <label htmlFor="splitDeadline" className="block text-sm font-medium text-gray-700">
+                            Pay By (Optional)
+                          </label>
+                          <input
+                            type="datetime-local"
+                            id="splitDeadline"
+                            value={splitDeadline}
+                            onChange={(e) => setSplitDeadline(e.target.value)}
+                            className="mt-1 block w-full shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm border-gray-300 rounded-md"
+                          />
+                        </div>
+                        
+                        <div className="flex justify-end">
+                          <button
+                            onClick={handleSplit}
+                            disabled={createSplit.isLoading || !splitEmails.trim()}
+                            className="px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50"
+                          >
+                            {createSplit.isLoading ? 'Sending...' : 'Invite Co-payers'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+                
+                {split?.status === 'collecting' && (
+                  <div className="space-y-4">
+                    <div className="p-4 bg-yellow-50 border-l-4 border-yellow-400 text-yellow-700">
+                      <p>
+                        This bill is being split. Every share must be paid by {formatDateTime(split.deadline)} to confirm the booking.
+                      </p>
+                    </div>
+                    
+                    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                      {split.shares.map((share: any) => (
+                        <li key={share._id} className="px-4 py-3 flex justify-between text-sm">
+                          <span className="text-gray-900">
+                            {share.email}{share.isRequester ? ' (requester)' : ''}
+                          </span>
+                          <span className="text-gray-500">
+                            ${share.amount} - {share.status.charAt(0).toUpperCase() + share.status.slice(1)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    
+                    {paymentError && (
+                      <div className="p-4 bg-red-50 border-l-4 border-red-400 text-red-700">
+                        <p>{paymentError}</p>
+                      </div>
+                    )}
+                    
+                    <div className="flex justify-end space-x-3">
+                      {isRequester && outstandingShares.length > 0 && (
+                        <button
+                          onClick={() => handlePayment(Number(outstandingAmount), { coverSplitRemainder: true })}
+                          disabled={isPaymentProcessing}
+                          className="px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50"
+                        >
+                          {isPaymentProcessing ? 'Processing...' : `Cover Remaining $${outstandingAmount}`}
+                        </button>
+                      )}
+                      {myShare && (myShare.status === 'invited' || myShare.status === 'pending') && (
+                        <button
+                          onClick={() => handlePayment(myShare.amount, { splitShareId: myShare._id })}
+                          disabled={isPaymentProcessing}
+                          className="px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50"
+                        >
+                          {isPaymentProcessing ? 'Processing...' : `Pay My Share $${myShare.amount}`}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+                
+                {split?.status === 'expired' && (
+                  <div className="p-4 bg-red-50 border-l-4 border-red-400 text-red-700">
+                    <p>Not every share was paid by the deadline, so this booking was cancelled and all payments refunded.</p>
+                  </div>
+                )}
+                
+                {request.status === 'accepted' && request.paymentStatus === 'partial' && request.deposit?.balanceStatus === 'failed' && (
+                  <div className="space-y-4">
+                    <div className="p-4 bg-yellow-50 border-l-4 border-yellow-400 text-yellow-700">
+                      <p>We couldn't charge the balance to your card{request.deposit.failureMessage ? ` (${request.deposit.failureMessage})` : ''}. Please pay it to keep your booking.</p>
                     </div>
                     
                     {paymentError && (
@@ -509,31 +1039,52 @@ export default function RequestDetailsPage() {
                     
                     <div className="flex justify-end">
                       <button
-                        onClick={handlePayment}
+                        onClick={() => handlePayment(amountDue)}
                         disabled={isPaymentProcessing}
                         className="px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50"
                       >
-                        {isPaymentProcessing ? 'Processing...' : `Pay $${request.priceBreakdown.totalCost}`}
+                        {isPaymentProcessing ? 'Processing...' : `Pay Balance $${amountDue}`}
                       </button>
                     </div>
                   </div>
                 )}
                 
+                {request.paymentStatus === 'partial' && request.deposit?.balanceStatus && request.deposit.balanceStatus !== 'failed' && (
+                  <div className="p-4 bg-green-50 border-l-4 border-green-400 text-green-700">
+                    <p>Deposit paid. Your booking is confirmed and the balance of ${request.deposit.balanceAmount} will be charged on {new Date(request.deposit.balanceDueAt).toLocaleDateString()}.</p>
+                  </div>
+                )}
+                
                 {request.paymentStatus === 'paid' && (
                   <div className="p-4 bg-green-50 border-l-4 border-green-400 text-green-700">
                     <p>Payment completed. Your booking is confirmed!</p>
                   </div>
                 )}
                 
-                {request.status === 'rejected' && (
+                {request.status === 'rejected' && split?.status !== 'expired' && (
                   <div className="p-4 bg-red-50 border-l-4 border-red-400 text-red-700">
                     <p>Your request has been declined. Please try another venue or instructor.</p>
                   </div>
                 )}
+                
+                {request.status === 'expired' && (
+                  <div className="p-4 bg-gray-50 border-l-4 border-gray-400 text-gray-700">
+                    <p>Your request expired because it wasn't answered in time. Please try another venue or instructor.</p>
+                  </div>
+                )}
               </>
             )}
           </div>
         </div>
+        
+        <PaymentModal
+          isOpen={!!checkoutPayment}
+          onClose={() => setCheckoutPayment(null)}
+          paymentInfo={checkoutPayment}
+          onPaymentSuccess={() => router.reload()}
+          onPaymentError={setPaymentError}
+          onApplyGiftCard={handleApplyGiftCard}
+        />
       </DashboardLayout>
     </ProtectedRoute>
   );
@@ -558,6 +1109,10 @@ const schema = yup.object().shape({
     then: yup.number().min(0, 'Price cannot be negative').required('Price is required'),
     otherwise: yup.number().nullable()
   }),
+  depositPercentage: yup.number()
+    .transform((value, original) => (original === '' ? undefined : value))
+    .min(1, 'Deposit must be at least 1%')
+    .max(99, 'Deposit must be less than 100%'),
   message: yup.string()
 });
 
@@ -584,6 +1139,7 @@ export default function RespondToRequestPage() {
     defaultValues: {
       approval: 'accepted',
       price: 0,
+      depositPercentage: undefined,
       message: ''
     }
   });
@@ -614,6 +1170,7 @@ export default function RespondToRequestPage() {
       await updateApproval.mutateAsync({
         approval: data.approval,
         price: data.approval === 'accepted' ? data.price : undefined,
+        depositPercentage: data.approval === 'accepted' ? data.depositPercentage : undefined,
         message: data.message
       });
     } catch (error) {
@@ -775,6 +1332,29 @@ export default function RespondToRequestPage() {
                 </div>
               )}
               
+              {approval === 'accepted' && (
+                <div>
+                  <label htmlFor="depositPercentage" className="block text-sm font-medium text-gray-700">
+                    Deposit Required (%) (Optional)
+                  </label>
+                  <input
+                    type="number"
+                    id="depositPercentage"
+                    {...register('depositPercentage')}
+                    className="mt-1 focus:ring-primary-500 focus:border-primary-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                    placeholder="Leave empty to take full payment up front"
+                    min="1"
+                    max="99"
+                  />
+                  <p className="mt-1 text-sm text-gray-500">
+                    The customer pays this share now and the rest is charged automatically before the start date.
+                  </p>
+                  {errors.depositPercentage && (
+                    <p className="mt-1 text-sm text-red-600">{errors.depositPercentage.message}</p>
+                  )}
+                </div>
+              )}
+              
               <div>
                 <label htmlFor="message" className="block text-sm font-medium text-gray-700">
                   Message (Optional)
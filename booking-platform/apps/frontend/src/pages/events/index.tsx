@@ -368,13 +368,15 @@ export default function EventsPage() {
 }
 
 // apps/frontend/src/pages/events/[id].tsx
-import { useState } from 'react';
+import { useState, useRef } from 'react';
 import { useRouter } from 'next/router';
 import { useQuery, useMutation } from 'react-query';
 import { format } from 'date-fns';
 import MainLayout from '@/components/layout/MainLayout';
-import { eventAPI, bookingAPI } from '@/lib/api';
+import PaymentModal from '@/components/payment/PaymentModal';
+import { eventAPI, bookingAPI, paymentAPI, membershipAPI, creditAPI, promoAPI } from '@/lib/api';
 import { useAuth } from '@/contexts/AuthContext';
+import { describeCancellationPolicy } from '@booking-platform/utils';
 
 const EventDetails = () => {
   const router = useRouter();
@@ -385,6 +387,20 @@ const EventDetails = () => {
   const [specialRequirements, setSpecialRequirements] = useState('');
   const [bookingSuccess, setBookingSuccess] = useState(false);
   const [bookingError, setBookingError] = useState('');
+  const [canJoinWaitlist, setCanJoinWaitlist] = useState(false);
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
+  const [coveredByMembership, setCoveredByMembership] = useState(false);
+  const [checkoutPayment, setCheckoutPayment] = useState<any>(null);
+  const [membershipMessage, setMembershipMessage] = useState('');
+  const [packMessage, setPackMessage] = useState('');
+  const [useCredits, setUseCredits] = useState(false);
+  const [promoCode, setPromoCode] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<any>(null);
+  const [promoError, setPromoError] = useState('');
+  // Reused when retrying the same booking attempt after a network failure
+  const bookingKey = useRef<string>();
+  const membershipKey = useRef<string>();
+  const packKey = useRef<string>();
 
   // Fetch event details
   const { data: eventData, isLoading, error } = useQuery(
@@ -410,28 +426,214 @@ const EventDetails = () => {
     }
   );
 
+  // Fetch membership plans that cover this event
+  const { data: plansData } = useQuery(
+    ['membershipPlans', id],
+    () => membershipAPI.getPlans({ eventId: id }),
+    {
+      enabled: !!id && eventData?.data?.data?.eventType === 'recurring'
+    }
+  );
+
+  // Fetch class packs that can be used for this event
+  const { data: packsData } = useQuery(
+    ['creditPacks', id],
+    () => creditAPI.getPacks({ eventId: id }),
+    {
+      enabled: !!id
+    }
+  );
+
+  // Fetch the user's class pack credits
+  const { data: creditsData, refetch: refetchCredits } = useQuery(
+    ['credits'],
+    () => creditAPI.getMyCredits(),
+    {
+      enabled: !!currentUser
+    }
+  );
+
   const event = eventData?.data?.data;
   const occurrences = occurrencesData?.data?.data || [];
+  const plans = plansData?.data?.data || [];
+  const packs = packsData?.data?.data || [];
+
+  // Credits the user can spend on this event
+  const availableCredits = (creditsData?.data?.data || [])
+    .filter((grant: any) =>
+      event &&
+      grant.providerId === event.leadCreatorId &&
+      (grant.eventIds.length === 0 || grant.eventIds.includes(event._id))
+    )
+    .reduce((sum: number, grant: any) => sum + grant.creditsRemaining, 0);
+
+  // Join a membership plan, then take the first month's payment
+  const joinMembership = useMutation(
+    (planId: string) => membershipAPI.createMembership({ planId }, membershipKey.current),
+    {
+      onSuccess: (response, planId) => {
+        membershipKey.current = undefined;
+        const plan = plans.find((p: any) => p._id === planId);
+        setMembershipMessage('');
+        setCheckoutPayment({
+          kind: 'membership',
+          clientSecret: response.data.data.clientSecret,
+          amount: plan?.price || 0,
+          currency: plan?.currency || 'USD'
+        });
+      },
+      onError: (error: any) => {
+        if (error.response) {
+          membershipKey.current = undefined;
+        }
+        setMembershipMessage(error.response?.data?.error?.message || 'Failed to start membership');
+      }
+    }
+  );
+
+  // Buy a class pack, then take the payment
+  const purchasePack = useMutation(
+    (packId: string) => creditAPI.purchasePack(packId, packKey.current),
+    {
+      onSuccess: (response) => {
+        packKey.current = undefined;
+        setPackMessage('');
+        setCheckoutPayment({ kind: 'pack', ...response.data.data });
+      },
+      onError: (error: any) => {
+        if (error.response) {
+          packKey.current = undefined;
+        }
+        setPackMessage(error.response?.data?.error?.message || 'Failed to buy class pack');
+      }
+    }
+  );
+
+  const handlePurchasePack = (packId: string) => {
+    if (!currentUser) {
+      router.push(`/login?redirect=/events/${id}`);
+      return;
+    }
+
+    packKey.current = packKey.current || crypto.randomUUID();
+    purchasePack.mutate(packId);
+  };
+
+  // Show the booking as made, then move on to the user's bookings
+  const finishBooking = () => {
+    setBookingSuccess(true);
+    setTimeout(() => {
+      router.push('/dashboard/bookings');
+    }, 2000);
+  };
+
+  const handleCheckoutSuccess = () => {
+    if (checkoutPayment?.kind === 'booking') {
+      finishBooking();
+    } else if (checkoutPayment?.kind === 'pack') {
+      setPackMessage('Thanks! Your credits will appear here once the payment clears.');
+      // The credits are added by the payment webhook, so give it a moment
+      setTimeout(() => refetchCredits(), 3000);
+    } else {
+      setMembershipMessage('Welcome! Your membership is active once the payment clears.');
+    }
+  };
+
+  const handleCheckoutError = (message: string) => {
+    if (checkoutPayment?.kind === 'booking') {
+      setBookingError(message);
+    } else if (checkoutPayment?.kind === 'pack') {
+      setPackMessage(message);
+    } else {
+      setMembershipMessage(message);
+    }
+  };
+
+  // Check a promo code and show what it takes off
+  const previewPromo = useMutation(
+    () => promoAPI.previewPromoCode({ code: promoCode, eventId: id, attendeesCount }),
+    {
+      onSuccess: (response) => {
+        setPromoError('');
+        setAppliedPromo(response.data.data);
+      },
+      onError: (error: any) => {
+        setAppliedPromo(null);
+        setPromoError(error.response?.data?.error?.message || 'Invalid promo code');
+      }
+    }
+  );
+
+  const handleApplyPromo = () => {
+    if (!currentUser) {
+      router.push(`/login?redirect=/events/${id}`);
+      return;
+    }
+
+    if (promoCode.trim()) {
+      previewPromo.mutate();
+    }
+  };
+
+  // Restart the booking's payment with a gift card taken off
+  const handleApplyGiftCard = async (code: string) => {
+    const response = await paymentAPI.initiatePayment({
+      bookingId: checkoutPayment.bookingId,
+      amount: checkoutPayment.chargeAmount,
+      currency: checkoutPayment.currency,
+      giftCardCode: code
+    }, crypto.randomUUID());
+    return response.data.data;
+  };
+
+  const handleJoinMembership = (planId: string) => {
+    if (!currentUser) {
+      router.push(`/login?redirect=/events/${id}`);
+      return;
+    }
+
+    membershipKey.current = membershipKey.current || crypto.randomUUID();
+    joinMembership.mutate(planId);
+  };
 
   // Create booking mutation
   const createBooking = useMutation(
-    (bookingData: any) => bookingAPI.createBooking(bookingData),
+    (bookingData: any) => bookingAPI.createBooking(bookingData, bookingKey.current),
     {
-      onSuccess: () => {
-        setBookingSuccess(true);
+      onSuccess: (response) => {
+        bookingKey.current = undefined;
         setBookingError('');
-        // Redirect to booking confirmation or dashboard
-        setTimeout(() => {
-          router.push('/dashboard/bookings');
-        }, 2000);
+        setCanJoinWaitlist(false);
+
+        // Event was full and the user joined the waitlist instead
+        if (response.status === 202) {
+          setWaitlistPosition(response.data.data.position);
+          return;
+        }
+
+        const { booking, payment, membership } = response.data.data;
+
+        // Paid bookings go to checkout, where a gift card can cover some or all of the price
+        if (payment?.clientSecret) {
+          setCheckoutPayment({ kind: 'booking', bookingId: booking._id, chargeAmount: booking.totalAmount, ...payment });
+          return;
+        }
+
+        setCoveredByMembership(!!membership);
+        finishBooking();
       },
       onError: (error: any) => {
+        // The server answered, so the next attempt is a new booking
+        if (error.response) {
+          bookingKey.current = undefined;
+        }
         setBookingError(error.response?.data?.error?.message || 'Failed to create booking');
+        setCanJoinWaitlist(error.response?.data?.error?.code === 'CAPACITY_EXCEEDED');
       }
     }
   );
 
-  const handleBooking = () => {
+  const handleBooking = (joinWaitlist = false) => {
     if (!currentUser) {
       router.push(`/login?redirect=/events/${id}`);
       return;
@@ -442,11 +644,15 @@ const EventDetails = () => {
       return;
     }
 
+    bookingKey.current = bookingKey.current || crypto.randomUUID();
     createBooking.mutate({
       eventId: id,
       eventDate: selectedDate,
       attendeesCount,
-      specialRequirements
+      specialRequirements,
+      joinWaitlist,
+      useCredits,
+      promoCode: !useCredits && appliedPromo ? appliedPromo.code : undefined
     });
   };
 
@@ -557,6 +763,15 @@ const EventDetails = () => {
                   </div>
                 )}
                 
+                <div className="mt-6">
+                  <h2 className="text-lg font-medium text-gray-900 mb-2">Cancellation policy</h2>
+                  <ul className="list-disc list-inside text-gray-600 space-y-1">
+                    {describeCancellationPolicy(event.cancellationPolicy).map((line) => (
+                      <li key={line}>{line}</li>
+                    ))}
+                  </ul>
+                </div>
+                
                 {/* Additional details can be added here */}
                 
               </div>
@@ -622,10 +837,62 @@ const EventDetails = () => {
                     />
                   </div>
                   
+                  {!useCredits && (
+                    <div className="mt-4">
+                      <label htmlFor="promoCode" className="block text-sm font-medium text-gray-700 mb-1">
+                        Promo Code
+                      </label>
+                      <div className="flex space-x-2">
+                        <input
+                          type="text"
+                          id="promoCode"
+                          value={promoCode}
+                          onChange={(e) => {
+                            setPromoCode(e.target.value.toUpperCase());
+                            setAppliedPromo(null);
+                          }}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                        />
+                        <button
+                          type="button"
+                          onClick={handleApplyPromo}
+                          disabled={previewPromo.isLoading || !promoCode.trim()}
+                          className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Apply
+                        </button>
+                      </div>
+                      {appliedPromo && (
+                        <p className="mt-1 text-sm text-green-600">
+                          {appliedPromo.code} applied: {appliedPromo.discountType === 'percentage'
+                            ? `${appliedPromo.value}% off`
+                            : `$${appliedPromo.value} off`}
+                          {appliedPromo.discountAmount !== undefined && ` (-$${appliedPromo.discountAmount.toFixed(2)})`}
+                        </p>
+                      )}
+                      {promoError && <p className="mt-1 text-sm text-red-600">{promoError}</p>}
+                    </div>
+                  )}
+
+                  {availableCredits > 0 && (
+                    <div className="mt-4">
+                      <label className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={useCredits}
+                          onChange={(e) => setUseCredits(e.target.checked)}
+                          disabled={availableCredits < attendeesCount}
+                          className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                        Use class pack credits ({availableCredits} left, {attendeesCount} needed)
+                      </label>
+                    </div>
+                  )}
+
                   <div className="mt-6">
                     <button
-                      onClick={handleBooking}
-                      disabled={createBooking.isLoading || bookingSuccess}
+                      onClick={() => handleBooking()}
+                      disabled={createBooking.isLoading || bookingSuccess || waitlistPosition !== null}
                       className="w-full py-3 px-4 bg-primary-600 hover:bg-primary-700 text-white rounded-md font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50"
                     >
                       {createBooking.isLoading ? 'Processing...' : bookingSuccess ? 'Booked Successfully!' : 'Book Now'}
@@ -634,9 +901,32 @@ const EventDetails = () => {
                     {bookingError && (
                       <p className="mt-2 text-sm text-red-600">{bookingError}</p>
                     )}
+
+                    {canJoinWaitlist && (
+                      <button
+                        onClick={() => handleBooking(true)}
+                        disabled={createBooking.isLoading}
+                        className="mt-3 w-full py-2 px-4 border border-primary-600 text-primary-600 hover:bg-primary-50 rounded-md font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50"
+                      >
+                        Join Waitlist
+                      </button>
+                    )}
+
+                    {waitlistPosition !== null && (
+                      <p className="mt-2 text-sm text-green-600">
+                        You're #{waitlistPosition} on the waitlist. We'll offer you a spot if one opens up.
+                      </p>
+                    )}
                     
                     {bookingSuccess && (
-                      <p className="mt-2 text-sm text-green-600">Booking successful! Redirecting to your bookings...</p>
+                      <p className="mt-2 text-sm text-green-600">
+                        {coveredByMembership
+                          ? 'Booked with your membership, nothing to pay! '
+                          : useCredits
+                          ? `Booked with ${attendeesCount} ${attendeesCount === 1 ? 'credit' : 'credits'}! `
+                          : 'Booking successful! '}
+                        Redirecting to your bookings...
+                      </p>
                     )}
                   </div>
                   
@@ -646,11 +936,92 @@ const EventDetails = () => {
                     </p>
                   </div>
                 </div>
+
+                {packs.length > 0 && (
+                  <div className="mt-6 bg-gray-50 rounded-lg p-6">
+                    <h2 className="text-lg font-medium text-gray-900">Class Packs</h2>
+                    <p className="mt-1 text-sm text-gray-600">
+                      Buy credits up front and spend one per person on each booking.
+                    </p>
+                    <ul className="mt-4 space-y-4">
+                      {packs.map((pack: any) => (
+                        <li key={pack._id} className="border border-gray-200 rounded-md bg-white p-4">
+                          <div className="flex items-baseline justify-between">
+                            <span className="font-medium text-gray-900">{pack.name}</span>
+                            <span className="text-sm text-gray-900">${pack.price}</span>
+                          </div>
+                          <p className="mt-1 text-sm text-gray-600">
+                            {pack.credits} credits, valid for {pack.validityDays} days
+                          </p>
+                          {pack.description && (
+                            <p className="mt-1 text-sm text-gray-500">{pack.description}</p>
+                          )}
+                          <button
+                            onClick={() => handlePurchasePack(pack._id)}
+                            disabled={purchasePack.isLoading}
+                            className="mt-3 w-full py-2 px-4 border border-primary-600 text-primary-600 hover:bg-primary-50 rounded-md font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50"
+                          >
+                            Buy
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                    {packMessage && (
+                      <p className="mt-2 text-sm text-gray-600">{packMessage}</p>
+                    )}
+                  </div>
+                )}
+
+                {plans.length > 0 && (
+                  <div className="mt-6 bg-gray-50 rounded-lg p-6">
+                    <h2 className="text-lg font-medium text-gray-900">Memberships</h2>
+                    <p className="mt-1 text-sm text-gray-600">
+                      Members book these classes without paying each time.
+                    </p>
+                    <ul className="mt-4 space-y-4">
+                      {plans.map((plan: any) => (
+                        <li key={plan._id} className="border border-gray-200 rounded-md bg-white p-4">
+                          <div className="flex items-baseline justify-between">
+                            <span className="font-medium text-gray-900">{plan.name}</span>
+                            <span className="text-sm text-gray-900">${plan.price}/month</span>
+                          </div>
+                          <p className="mt-1 text-sm text-gray-600">
+                            {plan.bookingsPerPeriod
+                              ? `${plan.bookingsPerPeriod} bookings a month`
+                              : 'Unlimited bookings'}
+                          </p>
+                          {plan.description && (
+                            <p className="mt-1 text-sm text-gray-500">{plan.description}</p>
+                          )}
+                          <button
+                            onClick={() => handleJoinMembership(plan._id)}
+                            disabled={joinMembership.isLoading}
+                            className="mt-3 w-full py-2 px-4 border border-primary-600 text-primary-600 hover:bg-primary-50 rounded-md font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50"
+                          >
+                            Join
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                    {membershipMessage && (
+                      <p className="mt-2 text-sm text-gray-600">{membershipMessage}</p>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </div>
         </div>
       </div>
+
+      <PaymentModal
+        isOpen={!!checkoutPayment}
+        onClose={() => setCheckoutPayment(null)}
+        paymentInfo={checkoutPayment}
+        onPaymentSuccess={handleCheckoutSuccess}
+        onPaymentError={handleCheckoutError}
+        onApplyGiftCard={checkoutPayment?.kind === 'booking' ? handleApplyGiftCard : undefined}
+      />
     </MainLayout>
   );
 };
@@ -9,6 +9,102 @@ import { useAuth } from '@/contexts/AuthContext';
 import { userAPI } from '@/lib/api';
 import { useMutation } from 'react-query';
 
+const rateCardFields = [
+  { name: 'hourlyRate', label: 'Hourly rate ($)' },
+  { name: 'perAttendeeRate', label: 'Per attendee ($)' },
+  { name: 'minimumFee', label: 'Minimum fee ($)' },
+  { name: 'travelFee', label: 'Travel fee ($)' },
+  { name: 'weekendSurcharge', label: 'Weekend surcharge (%)' },
+  { name: 'eveningSurcharge', label: 'Evening surcharge (%)' }
+];
+
+// Rates a creator's requests are quoted from
+const RateCardSettings = ({ rateCard }: { rateCard?: Record<string, any> }) => {
+  const [rates, setRates] = useState<Record<string, string>>(() => ({
+    ...Object.fromEntries(rateCardFields.map(({ name }) => [name, rateCard?.[name]?.toString() || ''])),
+    eveningStartsAt: rateCard?.eveningStartsAt || '18:00'
+  }));
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const updateRateCard = useMutation(
+    () => userAPI.updateRateCard({
+      ...Object.fromEntries(rateCardFields.map(({ name }) => [name, Number(rates[name]) || 0])),
+      eveningStartsAt: rates.eveningStartsAt
+    }),
+    {
+      onSuccess: () => {
+        setMessage('Rate card saved');
+        setError('');
+        setTimeout(() => setMessage(''), 3000);
+      },
+      onError: (error: any) => {
+        setError(error.response?.data?.error?.message || 'Failed to save rate card');
+        setMessage('');
+      }
+    }
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateRateCard.mutate();
+  };
+
+  return (
+    <div className="mt-8 bg-white shadow-sm rounded-lg overflow-hidden">
+      <div className="p-6 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900">Rate Card</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          Requests for you are quoted from these rates. Surcharges apply on weekends and to sessions running into the evening.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {rateCardFields.map(({ name, label }) => (
+            <div key={name}>
+              <label htmlFor={`rate-${name}`} className="block text-sm font-medium text-gray-700">{label}</label>
+              <input
+                id={`rate-${name}`}
+                type="number"
+                min="0"
+                max={name.endsWith('Surcharge') ? '100' : undefined}
+                step="0.01"
+                value={rates[name]}
+                onChange={(e) => setRates({ ...rates, [name]: e.target.value })}
+                className="mt-1 block w-full shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm border-gray-300 rounded-md"
+              />
+            </div>
+          ))}
+          <div>
+            <label htmlFor="rate-eveningStartsAt" className="block text-sm font-medium text-gray-700">Evening starts at</label>
+            <input
+              id="rate-eveningStartsAt"
+              type="time"
+              value={rates.eveningStartsAt}
+              onChange={(e) => setRates({ ...rates, eveningStartsAt: e.target.value })}
+              className="mt-1 block w-full shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm border-gray-300 rounded-md"
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {message && <p className="text-sm text-green-700">{message}</p>}
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={updateRateCard.isLoading || !rates.hourlyRate}
+            className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50"
+          >
+            {updateRateCard.isLoading ? 'Saving...' : 'Save Rates'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
 // Form validation schema
 const schema = yup.object().shape({
   name: yup.string().required('Name is required'),
@@ -199,6 +295,8 @@ export default function ProfilePage() {
             </div>
           )}
           
+          {userProfile?.role === 'provider' && <RateCardSettings rateCard={userProfile.rateCard} />}
+          
           {/* Account Security Section */}
           <div className="mt-8 bg-white shadow-sm rounded-lg overflow-hidden">
             <div className="p-6 border-b border-gray-200">
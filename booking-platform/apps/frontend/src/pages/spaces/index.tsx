@@ -377,6 +377,7 @@ export default function SpacesPage() {
 import { useState } from 'react';
 import { useRouter } from 'next/router';
 import { useQuery, useMutation } from 'react-query';
+import { isAxiosError } from 'axios';
 import { format, addHours, parseISO } from 'date-fns';
 import MainLayout from '@/components/layout/MainLayout';
 import { spaceAPI, requestAPI } from '@/lib/api';
@@ -450,6 +451,7 @@ const SpaceDetails = () => {
   const [endTime, setEndTime] = useState('');
   const [attendeesCount, setAttendeesCount] = useState(1);
   const [specialRequirements, setSpecialRequirements] = useState('');
+  const [promoCode, setPromoCode] = useState('');
   const [selectedCreator, setSelectedCreator] = useState('');
   const [eventTitle, setEventTitle] = useState('');
   const [eventDescription, setEventDescription] = useState('');
@@ -468,6 +470,47 @@ const SpaceDetails = () => {
   // Get space data
   const space = spaceData?.data?.data;
 
+  // Quote the request as the form is filled in
+  const quoteStart = new Date(`${bookingDate}T${startTime}`);
+  const quoteEnd = new Date(`${bookingDate}T${endTime}`);
+  const canQuote = !!currentUser && !!bookingDate && !!startTime && !!endTime && quoteEnd > quoteStart && attendeesCount > 0;
+
+  const { data: quoteData, error: quoteError } = useQuery(
+    ['requestQuote', id, selectedCreator, bookingDate, startTime, endTime, attendeesCount, promoCode.trim()],
+    () => requestAPI.quoteRequest({
+      spaceId: id,
+      creatorId: selectedCreator || undefined,
+      desiredDateTime: {
+        start: quoteStart.toISOString(),
+        end: quoteEnd.toISOString()
+      },
+      attendeesCount,
+      promoCode: promoCode.trim() || undefined
+    }),
+    {
+      enabled: canQuote,
+      keepPreviousData: true,
+      retry: false
+    }
+  );
+
+  const quote = canQuote ? quoteData?.data?.data : null;
+  const quoteErrorMessage = isAxiosError<{ error?: { message?: string } }>(quoteError)
+    ? quoteError.response?.data?.error?.message
+    : undefined;
+
+  // Warn before submitting when the space is closed or already booked then
+  const { data: availabilityData } = useQuery(
+    ['spaceAvailability', id, bookingDate, startTime, endTime],
+    () => spaceAPI.checkSpaceAvailability(id as string, { date: bookingDate, startTime, endTime }),
+    {
+      enabled: canQuote,
+      retry: false
+    }
+  );
+
+  const availability = canQuote ? availabilityData?.data?.data : null;
+
   // Create request mutation
   const createRequest = useMutation(
     (requestData: any) => requestAPI.createRequest(requestData),
@@ -518,7 +561,8 @@ const SpaceDetails = () => {
         end: end.toISOString()
       },
       attendeesCount,
-      specialRequirements
+      specialRequirements,
+      promoCode: promoCode.trim() || undefined
     };
 
     // If a creator is selected, add it to the request
@@ -770,6 +814,19 @@ const SpaceDetails = () => {
                         placeholder="Anything the venue owner should know?"
                       />
                     </div>
+
+                    <div className="mb-4">
+                      <label htmlFor="requestPromoCode" className="block text-sm font-medium text-gray-700 mb-1">
+                        Promo Code (optional)
+                      </label>
+                      <input
+                        type="text"
+                        id="requestPromoCode"
+                        value={promoCode}
+                        onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                      />
+                    </div>
                     
                     {/* Option to include an instructor */}
                     <div className="mb-4">
@@ -847,6 +904,89 @@ const SpaceDetails = () => {
                       )}
                     </div>
                     
+                    {availability && !availability.available && (
+                      <div className="mb-4 p-4 bg-yellow-50 rounded-md text-sm text-yellow-800">
+                        <p className="font-medium">{availability.reason}</p>
+                        {availability.conflicts?.length > 0 && (
+                          <ul className="mt-1 space-y-1">
+                            {availability.conflicts.map((conflict: any) => (
+                              <li key={`${conflict.kind}-${conflict.id}-${conflict.start}`}>
+                                {conflict.title}: {format(parseISO(conflict.start), 'h:mm a')} - {format(parseISO(conflict.end), 'h:mm a')}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+                    
+                    {/* Live quote */}
+                    {quote && (
+                      <div className="mb-4 p-4 bg-gray-50 rounded-md text-sm">
+                        <h4 className="font-medium text-gray-900 mb-2">Estimated price</h4>
+                        <dl className="space-y-1">
+                          <div className="flex justify-between">
+                            <dt className="text-gray-600">Venue</dt>
+                            <dd className="text-gray-900">${quote.venueFee.toFixed(2)}</dd>
+                          </div>
+                          {quote.creatorFee > 0 && (
+                            <div className="flex justify-between">
+                              <dt className="text-gray-600">Instructor</dt>
+                              <dd className="text-gray-900">${quote.creatorFee.toFixed(2)}</dd>
+                            </div>
+                          )}
+                          {quote.creatorQuote && (
+                            <>
+                              {quote.creatorQuote.weekendSurcharge > 0 && (
+                                <div className="flex justify-between pl-3 text-xs text-gray-500">
+                                  <dt>incl. weekend surcharge</dt>
+                                  <dd>${quote.creatorQuote.weekendSurcharge.toFixed(2)}</dd>
+                                </div>
+                              )}
+                              {quote.creatorQuote.eveningSurcharge > 0 && (
+                                <div className="flex justify-between pl-3 text-xs text-gray-500">
+                                  <dt>incl. evening surcharge</dt>
+                                  <dd>${quote.creatorQuote.eveningSurcharge.toFixed(2)}</dd>
+                                </div>
+                              )}
+                              {quote.creatorQuote.minimumTopUp > 0 && (
+                                <div className="flex justify-between pl-3 text-xs text-gray-500">
+                                  <dt>incl. top-up to minimum fee</dt>
+                                  <dd>${quote.creatorQuote.minimumTopUp.toFixed(2)}</dd>
+                                </div>
+                              )}
+                              {quote.creatorQuote.travelFee > 0 && (
+                                <div className="flex justify-between pl-3 text-xs text-gray-500">
+                                  <dt>incl. travel</dt>
+                                  <dd>${quote.creatorQuote.travelFee.toFixed(2)}</dd>
+                                </div>
+                              )}
+                            </>
+                          )}
+                          {quote.discountAmount > 0 && (
+                            <div className="flex justify-between">
+                              <dt className="text-gray-600">Discount</dt>
+                              <dd className="text-green-700">-${quote.discountAmount.toFixed(2)}</dd>
+                            </div>
+                          )}
+                          <div className="flex justify-between">
+                            <dt className="text-gray-600">Platform fee</dt>
+                            <dd className="text-gray-900">${quote.platformFee.toFixed(2)}</dd>
+                          </div>
+                          <div className="flex justify-between border-t pt-1 font-medium">
+                            <dt className="text-gray-900">Total</dt>
+                            <dd className="text-gray-900">${quote.totalCost.toFixed(2)}</dd>
+                          </div>
+                        </dl>
+                        {quote.promoError && <p className="mt-2 text-red-600">{quote.promoError}</p>}
+                      </div>
+                    )}
+                    
+                    {canQuote && !!quoteError && (
+                      <p className="mb-4 text-sm text-red-600">
+                        {quoteErrorMessage || 'Could not get a price for this request'}
+                      </p>
+                    )}
+                    
                     {/* Submit Button */}
                     <div className="mt-6">
                       <button
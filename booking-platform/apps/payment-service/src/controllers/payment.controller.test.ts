@@ -0,0 +1,135 @@
+import express from 'express';
+import axios from 'axios';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  UserModel,
+  EventModel,
+  BookingModel,
+  TransactionModel,
+  LedgerJournalModel,
+  WebhookEventModel
+} from '@booking-platform/database';
+import { useTestDatabase } from '@booking-platform/test-utils';
+import { FakePaymentProvider } from '../services/fake.provider';
+import { setPaymentProvider } from '../services/payment-provider.service';
+import paymentRoutes from '../routes/payment.routes';
+import webhookRoutes from '../routes/webhook.routes';
+
+// The controllers set up Firebase with credentials the tests don't have
+jest.mock('firebase-admin', () => ({ apps: [{}] }));
+
+const eventDate = new Date('2030-01-07T00:00:00.000Z');
+
+// The parts of the service's app that a booking payment goes through
+const createApp = () => {
+  const app = express();
+  app.use('/api/webhooks', express.raw({ type: 'application/json' }));
+  app.use(express.json());
+  app.use('/api', paymentRoutes);
+  app.use('/api', webhookRoutes);
+
+  return app;
+};
+
+describe('paying for a booking with the fake provider', () => {
+  let server: Server;
+  let baseUrl: string;
+  let provider: FakePaymentProvider;
+
+  useTestDatabase();
+
+  beforeAll(async () => {
+    process.env.PAYMENT_PROVIDER = 'fake';
+    // Nothing listens here, so the booking service notification fails fast
+    process.env.BOOKING_SERVICE_URL = 'http://localhost:9';
+
+    server = createApp().listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    // The fake delivers its webhooks to the app under test
+    provider = new FakePaymentProvider(`${baseUrl}/api/webhooks/stripe`);
+    setPaymentProvider(provider);
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const createHeldBooking = async () => {
+    await UserModel.create({
+      firebaseId: 'customer-1',
+      email: 'customer@example.com',
+      role: 'customer',
+      profile: { name: 'Customer' }
+    });
+
+    const event = await EventModel.create({
+      title: 'Morning yoga',
+      description: 'An hour of yoga',
+      leadCreatorId: 'creator-1',
+      eventType: 'single',
+      schedule: {
+        startDate: eventDate,
+        timeSlot: { start: '09:00', end: '10:00' }
+      },
+      spaceId: 'space-1',
+      pricePerStudent: 20,
+      currency: 'USD',
+      maxCapacity: 10
+    });
+
+    return BookingModel.create({
+      userId: 'customer-1',
+      eventId: event._id.toString(),
+      eventDate,
+      status: 'pending',
+      paymentStatus: 'unpaid',
+      holdExpiresAt: new Date(Date.now() + 15 * 60000),
+      attendeesCount: 1,
+      totalAmount: 20
+    });
+  };
+
+  it('confirms the booking, records the charge and schedules payouts once the webhook arrives', async () => {
+    const booking = await createHeldBooking();
+
+    const response = await axios.post(`${baseUrl}/api/payments/initiate`, {
+      bookingId: booking._id.toString(),
+      amount: 20,
+      currency: 'usd'
+    });
+    expect(response.data.success).toBe(true);
+
+    const pending = await TransactionModel.findById(response.data.data.paymentId);
+    expect(pending.status).toBe('pending');
+    expect((await BookingModel.findById(booking._id)).status).toBe('pending');
+
+    // Paying delivers a signed payment_intent.succeeded event to the webhook endpoint
+    await provider.simulatePaymentSuccess(pending.stripePaymentIntentId);
+
+    const webhookEvent = await WebhookEventModel.findOne({ type: 'payment_intent.succeeded' });
+    expect(webhookEvent.status).toBe('processed');
+
+    const confirmed = await BookingModel.findById(booking._id);
+    expect(confirmed.status).toBe('confirmed');
+    expect(confirmed.paymentStatus).toBe('paid');
+
+    const transaction = await TransactionModel.findById(pending._id);
+    expect(transaction.status).toBe('completed');
+    expect(transaction.stripeChargeId).toBeDefined();
+
+    const journal = await LedgerJournalModel.findOne({ reference: `charge:${transaction._id}` });
+    expect(journal).not.toBeNull();
+
+    expect(transaction.collaboratorSplits).toHaveLength(1);
+    expect(transaction.collaboratorSplits[0].creatorId).toBe('creator-1');
+    expect(transaction.collaboratorSplits[0].payoutStatus).toBe('pending');
+    expect(transaction.collaboratorSplits[0].amount).toBe(transaction.amount - transaction.platformFee);
+    // Held until the class has taken place
+    expect(transaction.payoutReleaseAt.getTime()).toBeGreaterThan(eventDate.getTime());
+  });
+});
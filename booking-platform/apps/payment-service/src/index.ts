@@ -4,6 +4,12 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import dotenv from 'dotenv';
 import { connectToDatabase } from '@booking-platform/database';
+import { identifyUser } from '@booking-platform/middleware';
+import { startPayoutScheduler } from './services/payout.service';
+import { startWebhookRetryWorker } from './services/webhook.service';
+import { startBitcoinWatcher } from './services/bitcoin.service';
+import { startBalanceScheduler } from './services/deposit.service';
+import { startSplitPaymentWorker } from './services/split-payment.service';
 
 // Load environment variables
 dotenv.config();
@@ -11,6 +17,11 @@ dotenv.config();
 // Import routes
 import paymentRoutes from './routes/payment.routes';
 import webhookRoutes from './routes/webhook.routes';
+import disputeRoutes from './routes/dispute.routes';
+import membershipRoutes from './routes/membership.routes';
+import creditRoutes from './routes/credit.routes';
+import giftCardRoutes from './routes/gift-card.routes';
+import fakeProviderRoutes from './routes/fake-provider.routes';
 
 // Initialize Express app
 const app = express();
@@ -27,6 +38,9 @@ app.use('/api/webhooks', express.raw({ type: 'application/json' }));
 app.use(express.json());
 app.use(morgan('dev'));
 
+// Identify the caller from the token passed on by the gateway or a calling service
+app.use('/api', identifyUser);
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', service: 'payment-service' });
@@ -35,6 +49,15 @@ app.get('/health', (req, res) => {
 // Register routes
 app.use('/api', paymentRoutes);
 app.use('/api', webhookRoutes);
+app.use('/api', disputeRoutes);
+app.use('/api', membershipRoutes);
+app.use('/api', creditRoutes);
+app.use('/api', giftCardRoutes);
+
+// Let local runs and tests drive the fake payment provider
+if (process.env.PAYMENT_PROVIDER === 'fake') {
+  app.use('/api', fakeProviderRoutes);
+}
 
 // Error handling
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -52,6 +75,11 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 const startServer = async () => {
   try {
     await connectToDatabase(process.env.MONGODB_URI as string);
+    startPayoutScheduler();
+    startWebhookRetryWorker();
+    startBitcoinWatcher();
+    startBalanceScheduler();
+    startSplitPaymentWorker();
     app.listen(port, () => {
       console.log(`Payment Service running on port ${port}`);
     });
@@ -0,0 +1,44 @@
+import dotenv from 'dotenv';
+import { connectToDatabase, disconnectFromDatabase } from '@booking-platform/database';
+
+// Load environment variables
+dotenv.config();
+
+import { replayWebhookEvent } from '../services/webhook.service';
+
+/**
+ * Replay a stored webhook event by its provider event ID
+ * Usage: npm run webhook:replay -- <eventId>
+ */
+const replay = async () => {
+  const eventId = process.argv[2];
+
+  if (!eventId) {
+    console.error('Usage: npm run webhook:replay -- <eventId>');
+    process.exit(1);
+  }
+
+  try {
+    await connectToDatabase(process.env.MONGODB_URI as string);
+
+    const record = await replayWebhookEvent(eventId);
+
+    if (!record) {
+      console.error(`Webhook event ${eventId} not found or currently processing`);
+      process.exitCode = 1;
+    } else {
+      console.log(`Webhook event ${eventId} (${record.type}): ${record.status}`);
+      if (record.lastError) {
+        console.log(`Last error: ${record.lastError}`);
+      }
+      process.exitCode = record.status === 'processed' ? 0 : 1;
+    }
+  } catch (error) {
+    console.error('Failed to replay webhook event:', error);
+    process.exitCode = 1;
+  } finally {
+    await disconnectFromDatabase();
+  }
+};
+
+replay();
\ No newline at end of file
@@ -0,0 +1,149 @@
+import mongoose from 'mongoose';
+import { BookingModel, TransactionModel, ITransaction } from '@booking-platform/database';
+import { createTestClock, useTestDatabase } from '@booking-platform/test-utils';
+import { FakeChainWatcher, setChainWatcher } from './chain-watcher.service';
+import { createBitcoinInvoice, checkBitcoinInvoice, REQUIRED_CONFIRMATIONS } from './bitcoin.service';
+import { fulfilPaidTransaction } from './transaction.service';
+
+jest.mock('./transaction.service', () => ({
+  fulfilPaidTransaction: jest.fn()
+}));
+
+const MINUTE = 60000;
+
+// A clock the tests move forward by hand
+const clock = createTestClock(new Date());
+const advance = (minutes: number): void => clock.advance(minutes * MINUTE);
+
+const getHoldExpiresAt = async (bookingId: string): Promise<Date | undefined> => {
+  const booking = await BookingModel.findById(bookingId);
+  return booking?.holdExpiresAt;
+};
+
+describe('bitcoin invoices', () => {
+  let watcher: FakeChainWatcher;
+  let transaction: ITransaction;
+  let bookingId: string;
+
+  useTestDatabase();
+
+  beforeEach(async () => {
+    clock.set(new Date('2030-01-07T09:00:00.000Z'));
+    watcher = new FakeChainWatcher();
+    setChainWatcher(watcher);
+
+    const booking = await BookingModel.create({
+      userId: 'user-1',
+      eventId: new mongoose.Types.ObjectId().toString(),
+      eventDate: new Date('2030-02-01T09:00:00.000Z'),
+      status: 'pending',
+      paymentStatus: 'unpaid',
+      holdExpiresAt: new Date(clock.now().getTime() + 15 * MINUTE),
+      attendeesCount: 1,
+      totalAmount: 50
+    });
+    bookingId = booking._id.toString();
+
+    transaction = await TransactionModel.create({
+      bookingId,
+      payerId: 'user-1',
+      transactionType: 'booking',
+      amount: 50,
+      currency: 'USD',
+      paymentMethod: 'bitcoin',
+      platformFee: 5
+    });
+    // 50 USD at 50,000 USD per bitcoin
+    transaction = await createBitcoinInvoice(transaction, 50000, clock);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('holds the seats until the invoice expires', async () => {
+    expect(transaction.bitcoinInvoice?.amountSats).toBe(100000);
+    expect(await getHoldExpiresAt(bookingId)).toEqual(transaction.bitcoinInvoice?.expiresAt);
+  });
+
+  it('marks the transaction paid only once the payment has enough confirmations', async () => {
+    const address = transaction.bitcoinInvoice!.address;
+    watcher.sendToAddress(address, 100000);
+    advance(5);
+
+    await checkBitcoinInvoice(transaction, clock);
+    expect(transaction.status).toBe('pending');
+    expect(transaction.bitcoinInvoice?.receivedSats).toBe(100000);
+    // Broadcast in full, so the hold runs past the invoice expiry while it confirms
+    expect((await getHoldExpiresAt(bookingId))!.getTime())
+      .toBeGreaterThan(transaction.bitcoinInvoice!.expiresAt.getTime());
+
+    for (let confirmations = 1; confirmations < REQUIRED_CONFIRMATIONS; confirmations += 1) {
+      watcher.mineBlocks(1);
+      advance(10);
+      await checkBitcoinInvoice(transaction, clock);
+      expect(transaction.status).toBe('pending');
+      expect(transaction.bitcoinInvoice?.confirmations).toBe(confirmations);
+    }
+    expect(fulfilPaidTransaction).not.toHaveBeenCalled();
+
+    watcher.mineBlocks(1);
+    advance(10);
+    await checkBitcoinInvoice(transaction, clock);
+
+    expect(transaction.status).toBe('completed');
+    expect(fulfilPaidTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails an invoice that expires unpaid', async () => {
+    advance(29);
+    await checkBitcoinInvoice(transaction, clock);
+    expect(transaction.status).toBe('pending');
+
+    advance(1);
+    await checkBitcoinInvoice(transaction, clock);
+
+    expect(transaction.status).toBe('failed');
+    expect(transaction.paymentMethodDetails.failureMessage).toBe('Bitcoin invoice expired unpaid');
+    expect(fulfilPaidTransaction).not.toHaveBeenCalled();
+  });
+
+  it('does not extend the hold for an underpaid invoice and fails it on expiry', async () => {
+    const expiresAt = transaction.bitcoinInvoice!.expiresAt;
+    watcher.sendToAddress(transaction.bitcoinInvoice!.address, 1);
+
+    // Four ticks, the last one two minutes before the invoice expires
+    for (let tick = 0; tick < 4; tick += 1) {
+      advance(7);
+      watcher.mineBlocks(1);
+      await checkBitcoinInvoice(transaction, clock);
+      expect(await getHoldExpiresAt(bookingId)).toEqual(expiresAt);
+    }
+
+    advance(2);
+    await checkBitcoinInvoice(transaction, clock);
+
+    expect(transaction.status).toBe('failed');
+    expect(transaction.paymentMethodDetails.failureMessage)
+      .toBe('Bitcoin invoice expired underpaid (1 of 100000 sats received)');
+  });
+
+  it('fails a full payment that does not confirm within the window', async () => {
+    watcher.sendToAddress(transaction.bitcoinInvoice!.address, 100000);
+    advance(5);
+    await checkBitcoinInvoice(transaction, clock);
+    const holdExpiresAt = await getHoldExpiresAt(bookingId);
+
+    // Later ticks must not push the hold any further
+    advance(60);
+    await checkBitcoinInvoice(transaction, clock);
+    expect(await getHoldExpiresAt(bookingId)).toEqual(holdExpiresAt);
+
+    clock.set(holdExpiresAt!);
+    await checkBitcoinInvoice(transaction, clock);
+
+    expect(transaction.status).toBe('failed');
+    expect(transaction.paymentMethodDetails.failureMessage).toBe('Bitcoin payment was not confirmed in time');
+    expect(fulfilPaidTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+import { UserModel, CreditPackModel, TransactionModel, ITransaction } from '@booking-platform/database';
+import { createTestClock, useTestDatabase } from '@booking-platform/test-utils';
+import { FakePaymentProvider } from './fake.provider';
+import { setPaymentProvider } from './payment-provider.service';
+import { schedulePayouts, releaseDuePayouts } from './payout.service';
+
+const MINUTE = 60000;
+
+// A clock the tests move to either side of the release date
+const clock = createTestClock(new Date());
+
+describe('payout release', () => {
+  let provider: FakePaymentProvider;
+
+  useTestDatabase();
+
+  beforeEach(() => {
+    // Webhooks go nowhere; the tests only look at the provider and the database
+    provider = new FakePaymentProvider('http://localhost:9/webhooks');
+    setPaymentProvider(provider);
+  });
+
+  const createCreator = async (onboarded: boolean, payoutsEnabled?: boolean) => {
+    const accountId = await provider.createConnectedAccount('creator-1', 'creator@example.com');
+    if (onboarded) {
+      await provider.simulateOnboardingComplete(accountId);
+    }
+
+    return UserModel.create({
+      firebaseId: 'creator-1',
+      email: 'creator@example.com',
+      role: 'provider',
+      profile: { name: 'Creator' },
+      stripe: payoutsEnabled === undefined ? { accountId } : { accountId, payoutsEnabled }
+    });
+  };
+
+  const createPaidTransaction = async (): Promise<ITransaction> => {
+    const pack = await CreditPackModel.create({
+      providerId: 'creator-1',
+      name: 'Five classes',
+      credits: 5,
+      price: 100,
+      validityDays: 30
+    });
+
+    const transaction = await TransactionModel.create({
+      creditPackId: pack._id.toString(),
+      payerId: 'customer-1',
+      transactionType: 'credit_pack',
+      amount: 100,
+      currency: 'USD',
+      paymentMethod: 'stripe',
+      platformFee: 10,
+      status: 'completed',
+      stripeChargeId: 'ch_fake_000001'
+    });
+    await schedulePayouts(transaction);
+
+    return transaction;
+  };
+
+  const getSplit = async (transactionId: string) => {
+    const transaction = await TransactionModel.findById(transactionId);
+    return transaction!.collaboratorSplits![0];
+  };
+
+  it('keeps payouts in escrow until the release date and then transfers them', async () => {
+    await createCreator(true, true);
+    const transaction = await createPaidTransaction();
+    const releaseAt = transaction.payoutReleaseAt!;
+
+    clock.set(new Date(releaseAt.getTime() - MINUTE));
+    await releaseDuePayouts(clock);
+
+    expect((await getSplit(transaction._id.toString())).payoutStatus).toBe('pending');
+
+    clock.set(new Date(releaseAt.getTime() + MINUTE));
+    await releaseDuePayouts(clock);
+
+    const split = await getSplit(transaction._id.toString());
+    expect(split.payoutStatus).toBe('transferred');
+    expect(split.amount).toBe(90);
+    expect(split.transferId).toBeDefined();
+
+    // A later run does not pay the same split twice
+    clock.set(new Date(releaseAt.getTime() + 60 * MINUTE));
+    await releaseDuePayouts(clock);
+    expect((await getSplit(transaction._id.toString())).transferId).toBe(split.transferId);
+  });
+
+  it('checks accounts that were never flagged with the provider and backfills the flag', async () => {
+    await createCreator(true);
+    const transaction = await createPaidTransaction();
+
+    clock.set(new Date(transaction.payoutReleaseAt!.getTime() + MINUTE));
+    await releaseDuePayouts(clock);
+
+    expect((await getSplit(transaction._id.toString())).payoutStatus).toBe('transferred');
+    const creator = await UserModel.findOne({ firebaseId: 'creator-1' });
+    expect(creator.stripe.payoutsEnabled).toBe(true);
+  });
+
+  it('holds payouts for accounts that cannot receive them yet', async () => {
+    await createCreator(false);
+    const transaction = await createPaidTransaction();
+
+    clock.set(new Date(transaction.payoutReleaseAt!.getTime() + MINUTE));
+    await releaseDuePayouts(clock);
+
+    expect((await getSplit(transaction._id.toString())).payoutStatus).toBe('held');
+    const creator = await UserModel.findOne({ firebaseId: 'creator-1' });
+    expect(creator.stripe.payoutsEnabled).toBe(false);
+  });
+});
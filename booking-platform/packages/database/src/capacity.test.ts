@@ -0,0 +1,78 @@
+import mongoose from 'mongoose';
+import { useTestDatabase } from '@booking-platform/test-utils';
+import { reserveSeats, releaseSeats, cancelBookingAndReleaseSeats } from './capacity';
+import { BookingModel, OccurrenceCapacityModel } from './models';
+
+const eventId = new mongoose.Types.ObjectId().toString();
+const eventDate = new Date('2030-01-07T09:00:00.000Z');
+
+const createBooking = (attendeesCount: number, status = 'confirmed') => BookingModel.create({
+  userId: 'user-1',
+  eventId,
+  eventDate,
+  status,
+  attendeesCount,
+  totalAmount: attendeesCount * 20
+});
+
+const getReserved = async (): Promise<number | undefined> => {
+  const counter = await OccurrenceCapacityModel.findOne({ eventId, eventDate });
+  return counter?.reserved;
+};
+
+describe('occurrence capacity', () => {
+  useTestDatabase();
+
+  beforeAll(async () => {
+    // The unique index is what lets parallel first reservations share one counter
+    await OccurrenceCapacityModel.syncIndexes();
+  });
+
+  it('never oversells an occurrence hammered with parallel reservations', async () => {
+    const results = await Promise.all(
+      Array.from({ length: 50 }, () => reserveSeats(eventId, eventDate, 1, 10))
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(10);
+    expect(await getReserved()).toBe(10);
+  });
+
+  it('seeds the counter from existing bookings once when first used in parallel', async () => {
+    await createBooking(2);
+    await createBooking(1);
+
+    const results = await Promise.all(
+      Array.from({ length: 20 }, () => reserveSeats(eventId, eventDate, 1, 5))
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(2);
+    expect(await getReserved()).toBe(5);
+    expect(await OccurrenceCapacityModel.countDocuments({ eventId, eventDate })).toBe(1);
+  });
+
+  it('rejects a group that would not fit without reserving any of its seats', async () => {
+    await reserveSeats(eventId, eventDate, 4, 5);
+
+    expect(await reserveSeats(eventId, eventDate, 2, 5)).toBe(false);
+    expect(await getReserved()).toBe(4);
+  });
+
+  it('releases the seats of a booking cancelled in parallel only once', async () => {
+    await reserveSeats(eventId, eventDate, 3, 10);
+    const booking = await createBooking(3);
+
+    const cancelled = await Promise.all(
+      Array.from({ length: 10 }, () => cancelBookingAndReleaseSeats({ _id: booking._id }))
+    );
+
+    expect(cancelled.filter(Boolean)).toHaveLength(1);
+    expect(await getReserved()).toBe(0);
+  });
+
+  it('clamps the counter at zero when more seats are released than reserved', async () => {
+    await reserveSeats(eventId, eventDate, 1, 10);
+    await releaseSeats(eventId, eventDate, 3);
+
+    expect(await getReserved()).toBe(0);
+  });
+});
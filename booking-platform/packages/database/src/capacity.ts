@@ -0,0 +1,112 @@
+import { OccurrenceCapacityModel } from './models/capacity.model';
+import { BookingModel, IBooking } from './models';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Count the seats held by bookings for an event occurrence
+ * (confirmed bookings plus pending bookings with a seat hold)
+ */
+export const countReservedSeats = async (eventId: string, eventDate: Date): Promise<number> => {
+  const bookings = await BookingModel.find({
+    eventId,
+    eventDate,
+    $or: [
+      { status: 'confirmed' },
+      { status: 'pending', holdExpiresAt: { $exists: true } }
+    ]
+  });
+
+  return bookings.reduce((sum: number, booking: any) => sum + booking.attendeesCount, 0);
+};
+
+/**
+ * Make sure a capacity counter exists for an event occurrence,
+ * seeding it from existing bookings the first time it is used
+ */
+const ensureCounter = async (eventId: string, eventDate: Date): Promise<void> => {
+  const existing = await OccurrenceCapacityModel.exists({ eventId, eventDate });
+  if (existing) {
+    return;
+  }
+
+  const reserved = await countReservedSeats(eventId, eventDate);
+
+  try {
+    await OccurrenceCapacityModel.updateOne(
+      { eventId, eventDate },
+      { $setOnInsert: { reserved } },
+      { upsert: true }
+    );
+  } catch (error: any) {
+    // Another request created the counter first
+    if (error.code !== DUPLICATE_KEY_ERROR) {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Atomically reserve seats for an event occurrence.
+ * Returns false without reserving anything if the seats would exceed capacity.
+ */
+export const reserveSeats = async (
+  eventId: string,
+  eventDate: Date,
+  count: number,
+  maxCapacity: number
+): Promise<boolean> => {
+  await ensureCounter(eventId, eventDate);
+
+  // The capacity check and increment happen in a single document update
+  const counter = await OccurrenceCapacityModel.findOneAndUpdate(
+    {
+      eventId,
+      eventDate,
+      $expr: { $lte: [{ $add: ['$reserved', count] }, maxCapacity] }
+    },
+    { $inc: { reserved: count } },
+    { new: true }
+  );
+
+  return !!counter;
+};
+
+/**
+ * Atomically give seats back to an event occurrence.
+ * The counter never drops below zero, even if more seats are released than were reserved.
+ */
+export const releaseSeats = async (eventId: string, eventDate: Date, count: number): Promise<void> => {
+  const previous = await OccurrenceCapacityModel.findOneAndUpdate(
+    { eventId, eventDate },
+    [{ $set: { reserved: { $max: [0, { $subtract: ['$reserved', count] }] } } }]
+  );
+
+  if (previous && previous.reserved < count) {
+    console.error(`Capacity counter underflow for event ${eventId} on ${eventDate.toISOString()}, clamped to zero`);
+  }
+};
+
+/**
+ * Cancel a booking matching the filter and give its seats back.
+ * The status change is conditional, so seats are released at most once.
+ */
+export const cancelBookingAndReleaseSeats = async (
+  filter: Record<string, any>,
+  update: Record<string, any> = {}
+): Promise<IBooking | null> => {
+  const previous = await BookingModel.findOneAndUpdate(
+    { $and: [filter, { status: { $ne: 'cancelled' } }] },
+    { ...update, status: 'cancelled' }
+  );
+
+  if (!previous) {
+    return null;
+  }
+
+  if (previous.status === 'confirmed' || previous.holdExpiresAt) {
+    await releaseSeats(previous.eventId, previous.eventDate, previous.attendeesCount);
+  }
+
+  return BookingModel.findById(previous._id);
+};
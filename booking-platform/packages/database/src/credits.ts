@@ -0,0 +1,80 @@
+import { CreditGrantModel, ICreditGrant } from './models/credit-grant.model';
+import { IEvent } from './models/event.model';
+
+export type CreditRedemption = { grantId: string; credits: number };
+
+/**
+ * Whether credits from a grant can be used to book an event
+ */
+export const grantCoversEvent = (grant: ICreditGrant, event: IEvent): boolean =>
+  event.leadCreatorId === grant.providerId &&
+  (grant.eventIds.length === 0 || grant.eventIds.includes(event._id.toString()));
+
+/**
+ * A user's unexpired grants that still have credits, soonest to expire first
+ */
+export const getUsableCreditGrants = async (userId: string, at: Date = new Date()): Promise<ICreditGrant[]> =>
+  CreditGrantModel.find({
+    userId,
+    creditsRemaining: { $gt: 0 },
+    expiresAt: { $gt: at }
+  }).sort({ expiresAt: 1 });
+
+/**
+ * Give back credits taken for a booking (e.g. when it is cancelled)
+ */
+export const restoreCredits = async (redemptions: CreditRedemption[]): Promise<void> => {
+  for (const redemption of redemptions) {
+    await CreditGrantModel.updateOne(
+      { _id: redemption.grantId },
+      { $inc: { creditsRemaining: redemption.credits } }
+    );
+  }
+};
+
+/**
+ * Take credits for a booking, using the ones that expire soonest first.
+ * Returns what was taken from each grant, or null if the user doesn't have enough.
+ */
+export const redeemCredits = async (
+  userId: string,
+  event: IEvent,
+  credits: number,
+  at: Date = new Date()
+): Promise<CreditRedemption[] | null> => {
+  const grants = (await getUsableCreditGrants(userId, at)).filter(grant => grantCoversEvent(grant, event));
+
+  if (grants.reduce((sum, grant) => sum + grant.creditsRemaining, 0) < credits) {
+    return null;
+  }
+
+  const redemptions: CreditRedemption[] = [];
+  let outstanding = credits;
+
+  for (const grant of grants) {
+    if (outstanding === 0) {
+      break;
+    }
+
+    const take = Math.min(outstanding, grant.creditsRemaining);
+
+    // Conditional on the balance so concurrent bookings can't overdraw it
+    const taken = await CreditGrantModel.findOneAndUpdate(
+      { _id: grant._id, creditsRemaining: { $gte: take }, expiresAt: { $gt: at } },
+      { $inc: { creditsRemaining: -take } }
+    );
+
+    if (taken) {
+      redemptions.push({ grantId: grant._id.toString(), credits: take });
+      outstanding -= take;
+    }
+  }
+
+  // Another booking used some of the credits in the meantime
+  if (outstanding > 0) {
+    await restoreCredits(redemptions);
+    return null;
+  }
+
+  return redemptions;
+};
@@ -0,0 +1,117 @@
+import { GiftCardModel, IGiftCard } from './models/gift-card.model';
+import { TransactionModel, ITransaction } from './models/transaction.model';
+
+export type AppliedGiftCard = {
+  giftCardId: string;
+  code: string;
+  amount: number;
+};
+
+export type GiftCardCheck =
+  | { valid: true; giftCard: IGiftCard }
+  | { valid: false; message: string; code: string };
+
+// Round a currency amount to cents
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Check whether a gift card can be spent on a payment in the given currency
+ */
+export const checkGiftCard = async (code: string, currency: string): Promise<GiftCardCheck> => {
+  const giftCard: IGiftCard | null = await GiftCardModel.findOne({
+    code: code.trim().toUpperCase(),
+    status: 'active'
+  });
+
+  if (!giftCard) {
+    return { valid: false, message: 'Gift card not found', code: 'GIFT_CARD_NOT_FOUND' };
+  }
+
+  if (giftCard.currency.toUpperCase() !== currency.toUpperCase()) {
+    return { valid: false, message: `Gift card can only be used for ${giftCard.currency} payments`, code: 'GIFT_CARD_CURRENCY_MISMATCH' };
+  }
+
+  if (giftCard.balance <= 0) {
+    return { valid: false, message: 'Gift card has no balance left', code: 'GIFT_CARD_EMPTY' };
+  }
+
+  return { valid: true, giftCard };
+};
+
+/**
+ * Take up to the given amount from a checked gift card's balance.
+ * Returns null if the balance was spent in the meantime.
+ */
+export const holdGiftCardBalance = async (
+  giftCard: IGiftCard,
+  amount: number
+): Promise<AppliedGiftCard | null> => {
+  let current: IGiftCard | null = giftCard;
+
+  // Retry against the fresh balance if a concurrent payment took part of it first
+  for (let attempt = 0; attempt < 3 && current && current.balance > 0; attempt++) {
+    const take = roundAmount(Math.min(current.balance, amount));
+
+    const updated = await GiftCardModel.findOneAndUpdate(
+      { _id: current._id, status: 'active', balance: { $gte: take } },
+      { $inc: { balance: -take } }
+    );
+
+    if (updated) {
+      return { giftCardId: current._id.toString(), code: current.code, amount: take };
+    }
+
+    current = await GiftCardModel.findOne({ _id: current._id, status: 'active' });
+  }
+
+  return null;
+};
+
+/**
+ * Put an amount back on a gift card, after a refund or an abandoned payment
+ */
+export const restoreGiftCardBalance = async (giftCardId: string, amount: number): Promise<void> => {
+  if (amount <= 0) {
+    return;
+  }
+
+  await GiftCardModel.updateOne({ _id: giftCardId }, { $inc: { balance: roundAmount(amount) } });
+};
+
+/**
+ * Give back the gift card balance held by pending payments that will never be
+ * completed, e.g. replaced by a new attempt or left behind by a lapsed booking.
+ * Returns the released transactions, whose payment intents should no longer be payable.
+ */
+export const releaseGiftCardHolds = async (filter: {
+  bookingId?: string;
+  requestId?: string;
+  payerId?: string;
+  paymentStage?: string;
+}): Promise<ITransaction[]> => {
+  const held: ITransaction[] = await TransactionModel.find({
+    ...filter,
+    status: 'pending',
+    'giftCardRedemption.amount': { $gt: 0 }
+  });
+
+  const releasedTransactions: ITransaction[] = [];
+
+  for (const transaction of held) {
+    const redemption = transaction.giftCardRedemption!;
+    const remaining = roundAmount(redemption.amount - (redemption.amountRestored || 0));
+
+    // Conditional on the transaction still pending so the balance is only given back once
+    const released = await TransactionModel.findOneAndUpdate(
+      { _id: transaction._id, status: 'pending' },
+      { status: 'failed', $inc: { 'giftCardRedemption.amountRestored': remaining } }
+    );
+
+    if (released) {
+      await restoreGiftCardBalance(redemption.giftCardId, remaining);
+      releasedTransactions.push(released);
+    }
+  }
+
+  return releasedTransactions;
+};
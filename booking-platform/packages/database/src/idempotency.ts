@@ -0,0 +1,99 @@
+import { IdempotencyRecordModel } from './models/idempotency.model';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// How long a key can be replayed after it was first used
+const IDEMPOTENCY_KEY_TTL_HOURS = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24;
+
+// How long a request can hold its key before a retry may take it over
+const IDEMPOTENCY_LOCK_TIMEOUT_MINUTES = Number(process.env.IDEMPOTENCY_LOCK_TIMEOUT_MINUTES) || 5;
+
+export type IdempotencyCheck =
+  | { state: 'new' }
+  | { state: 'processing' }
+  | { state: 'mismatch' }
+  | { state: 'completed'; responseStatus: number; responseBody: any };
+
+/**
+ * Claim an idempotency key for a request, or find out what happened
+ * to the request that claimed it first
+ */
+export const beginIdempotentRequest = async (
+  key: string,
+  scope: string,
+  fingerprint: string
+): Promise<IdempotencyCheck> => {
+  try {
+    await IdempotencyRecordModel.create({
+      key,
+      scope,
+      fingerprint,
+      status: 'processing',
+      expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 3600000)
+    });
+
+    return { state: 'new' };
+  } catch (error: any) {
+    if (error.code !== DUPLICATE_KEY_ERROR) {
+      throw error;
+    }
+  }
+
+  const existing = await IdempotencyRecordModel.findOne({ key, scope });
+
+  // Released between our insert and lookup, let the caller retry
+  if (!existing) {
+    return { state: 'processing' };
+  }
+
+  if (existing.fingerprint !== fingerprint) {
+    return { state: 'mismatch' };
+  }
+
+  if (existing.status === 'processing') {
+    // The request holding the key never finished (e.g. the process died), so take it over
+    const staleBefore = new Date(Date.now() - IDEMPOTENCY_LOCK_TIMEOUT_MINUTES * 60000);
+    const reclaimed = await IdempotencyRecordModel.findOneAndUpdate(
+      { _id: existing._id, status: 'processing', updatedAt: { $lte: staleBefore } },
+      { expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 3600000) }
+    );
+
+    return reclaimed ? { state: 'new' } : { state: 'processing' };
+  }
+
+  return {
+    state: 'completed',
+    responseStatus: existing.responseStatus as number,
+    responseBody: existing.responseBody
+  };
+};
+
+/**
+ * Store the response for a claimed key so repeats of the request get it back
+ */
+export const completeIdempotentRequest = async (
+  key: string,
+  scope: string,
+  responseStatus: number,
+  responseBody: any
+): Promise<void> => {
+  await IdempotencyRecordModel.updateOne(
+    { key, scope },
+    { status: 'completed', responseStatus, responseBody }
+  );
+};
+
+/**
+ * Give up a claimed key (e.g. after a server error) so the request can be retried
+ */
+export const releaseIdempotentRequest = async (key: string, scope: string): Promise<void> => {
+  await IdempotencyRecordModel.deleteOne({ key, scope, status: 'processing' });
+};
+
+/**
+ * Drop a key whatever state its request is in, e.g. once the payment it created has
+ * been cancelled, so the next request with it runs again instead of being replayed
+ */
+export const forgetIdempotentRequest = async (key: string, scope: string): Promise<void> => {
+  await IdempotencyRecordModel.deleteOne({ key, scope });
+};
@@ -1,2 +1,10 @@
 export * from './connection';
+export * from './capacity';
+export * from './credits';
+export * from './gift-cards';
+export * from './idempotency';
+export * from './ledger';
+export * from './memberships';
+export * from './notifications';
+export * from './promotions';
 export * from './models';
\ No newline at end of file
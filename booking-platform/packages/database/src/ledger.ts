@@ -0,0 +1,196 @@
+import { LedgerJournalModel, ILedgerJournal, LedgerAccount } from './models/ledger.model';
+import { ITransaction } from './models/transaction.model';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+type LedgerLine = ILedgerJournal['lines'][number];
+
+// Round a currency amount to cents
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Which payable account a split is owed from
+const payableAccount = (role: string): LedgerAccount =>
+  role === 'venue' ? 'venue_payable' : 'creator_payable';
+
+/**
+ * Save a journal, ignoring it if its reference has already been recorded
+ */
+const postJournal = async (journal: {
+  reference: string;
+  type: ILedgerJournal['type'];
+  transaction: ITransaction;
+  description: string;
+  lines: LedgerLine[];
+}): Promise<void> => {
+  try {
+    await LedgerJournalModel.create({
+      reference: journal.reference,
+      type: journal.type,
+      transactionId: journal.transaction._id.toString(),
+      currency: journal.transaction.currency,
+      description: journal.description,
+      lines: journal.lines.filter(line => line.debit > 0 || line.credit > 0)
+    });
+  } catch (error: any) {
+    if (error.code !== DUPLICATE_KEY_ERROR) {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Record a customer charge: cash in, owed to the creators and venue,
+ * with whatever is left kept as platform fee revenue
+ */
+export const recordChargeEntry = async (transaction: ITransaction): Promise<void> => {
+  // Selling a gift card is money owed back as bookings until it is spent
+  if (transaction.giftCardId) {
+    await postJournal({
+      reference: `charge:${transaction._id}`,
+      type: 'charge',
+      transaction,
+      description: 'Gift card sale',
+      lines: [
+        { account: 'cash', debit: roundAmount(transaction.amount), credit: 0 },
+        { account: 'gift_card_liability', debit: 0, credit: roundAmount(transaction.amount) }
+      ]
+    });
+    return;
+  }
+
+  const giftCardAmount = roundAmount(transaction.giftCardRedemption?.amount || 0);
+  const payableLines: LedgerLine[] = (transaction.collaboratorSplits || []).map(split => ({
+    account: payableAccount(split.role),
+    ownerId: split.creatorId,
+    debit: 0,
+    credit: roundAmount(split.amount)
+  }));
+  const payableTotal = payableLines.reduce((sum, line) => sum + line.credit, 0);
+
+  await postJournal({
+    reference: `charge:${transaction._id}`,
+    type: 'charge',
+    transaction,
+    description: 'Customer charge',
+    lines: [
+      { account: 'cash', debit: roundAmount(transaction.amount - giftCardAmount), credit: 0 },
+      { account: 'gift_card_liability', debit: giftCardAmount, credit: 0 },
+      ...payableLines,
+      { account: 'platform_revenue', debit: 0, credit: roundAmount(transaction.amount - payableTotal) }
+    ]
+  });
+};
+
+/**
+ * Record a refund: cash out (or back onto a gift card), taken from the creators,
+ * venue and platform in proportion to their share of the original charge
+ */
+export const recordRefundEntry = async (
+  transaction: ITransaction,
+  refundId: string,
+  amount: number,
+  toGiftCard: boolean = false
+): Promise<void> => {
+  const ratio = transaction.amount > 0 ? amount / transaction.amount : 0;
+  const payableLines: LedgerLine[] = (transaction.collaboratorSplits || []).map(split => ({
+    account: payableAccount(split.role),
+    ownerId: split.creatorId,
+    debit: roundAmount(split.amount * ratio),
+    credit: 0
+  }));
+  const payableTotal = payableLines.reduce((sum, line) => sum + line.debit, 0);
+
+  await postJournal({
+    reference: `refund:${refundId}`,
+    type: 'refund',
+    transaction,
+    description: 'Customer refund',
+    lines: [
+      ...payableLines,
+      { account: 'platform_revenue', debit: roundAmount(amount - payableTotal), credit: 0 },
+      { account: toGiftCard ? 'gift_card_liability' : 'cash', debit: 0, credit: roundAmount(amount) }
+    ]
+  });
+};
+
+/**
+ * Record a payout to a creator or venue: settles what they are owed
+ */
+export const recordPayoutEntry = async (
+  transaction: ITransaction,
+  split: { creatorId: string; role: string; amount: number; transferId?: string }
+): Promise<void> => {
+  await postJournal({
+    reference: `payout:${split.transferId || `${transaction._id}:${split.role}:${split.creatorId}`}`,
+    type: 'payout',
+    transaction,
+    description: `Payout to ${split.role}`,
+    lines: [
+      { account: payableAccount(split.role), ownerId: split.creatorId, debit: roundAmount(split.amount), credit: 0 },
+      { account: 'cash', debit: 0, credit: roundAmount(split.amount) }
+    ]
+  });
+};
+
+/**
+ * Get what the platform currently owes a user, as a creator and as a venue owner
+ */
+export const getPayableBalances = async (
+  ownerId: string
+): Promise<{ creatorPayable: number; venuePayable: number }> => {
+  const totals = await LedgerJournalModel.aggregate([
+    { $unwind: '$lines' },
+    { $match: { 'lines.ownerId': ownerId } },
+    {
+      $group: {
+        _id: '$lines.account',
+        debit: { $sum: '$lines.debit' },
+        credit: { $sum: '$lines.credit' }
+      }
+    }
+  ]);
+
+  const balanceOf = (account: LedgerAccount): number => {
+    const total = totals.find((t: any) => t._id === account);
+    return total ? roundAmount(total.credit - total.debit) : 0;
+  };
+
+  return {
+    creatorPayable: balanceOf('creator_payable'),
+    venuePayable: balanceOf('venue_payable')
+  };
+};
+
+/**
+ * Total debits and credits per account, for reconciliation.
+ * The ledger is consistent when total debits equal total credits.
+ */
+export const getTrialBalance = async (): Promise<{
+  accounts: Array<{ account: LedgerAccount; debit: number; credit: number }>;
+  balanced: boolean;
+}> => {
+  const totals = await LedgerJournalModel.aggregate([
+    { $unwind: '$lines' },
+    {
+      $group: {
+        _id: '$lines.account',
+        debit: { $sum: '$lines.debit' },
+        credit: { $sum: '$lines.credit' }
+      }
+    },
+    { $sort: { _id: 1 } }
+  ]);
+
+  const accounts = totals.map((t: any) => ({
+    account: t._id as LedgerAccount,
+    debit: roundAmount(t.debit),
+    credit: roundAmount(t.credit)
+  }));
+  const debits = accounts.reduce((sum, a) => sum + a.debit, 0);
+  const credits = accounts.reduce((sum, a) => sum + a.credit, 0);
+
+  return {
+    accounts,
+    balanced: Math.round(debits * 100) === Math.round(credits * 100)
+  };
+};
@@ -0,0 +1,67 @@
+import { MembershipModel, IMembership } from './models/membership.model';
+import { MembershipPlanModel, IMembershipPlan } from './models/membership-plan.model';
+import { IEvent } from './models/event.model';
+
+/**
+ * Whether a plan covers bookings of an event
+ */
+export const planCoversEvent = (plan: IMembershipPlan, event: IEvent): boolean =>
+  event.eventType === 'recurring' &&
+  event.leadCreatorId === plan.providerId &&
+  (plan.eventIds.length === 0 || plan.eventIds.includes(event._id.toString()));
+
+/**
+ * Use up one booking of an active membership that covers the event, if the user has one.
+ * Returns the membership used, or null if the booking has to be paid for.
+ */
+export const claimMembershipBooking = async (
+  userId: string,
+  event: IEvent,
+  at: Date = new Date()
+): Promise<IMembership | null> => {
+  const memberships: IMembership[] = await MembershipModel.find({
+    userId,
+    providerId: event.leadCreatorId,
+    status: 'active',
+    currentPeriodEnd: { $gt: at }
+  });
+
+  for (const membership of memberships) {
+    const plan: IMembershipPlan | null = await MembershipPlanModel.findById(membership.planId);
+    if (!plan || !planCoversEvent(plan, event)) {
+      continue;
+    }
+
+    // Conditional on the allowance so concurrent bookings can't overdraw it
+    const claimed: IMembership | null = await MembershipModel.findOneAndUpdate(
+      {
+        _id: membership._id,
+        status: 'active',
+        ...(plan.bookingsPerPeriod && { bookingsUsed: { $lt: plan.bookingsPerPeriod } })
+      },
+      { $inc: { bookingsUsed: 1 } },
+      { new: true }
+    );
+
+    if (claimed) {
+      return claimed;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Give back a booking claimed in the current period (e.g. when it is cancelled)
+ */
+export const releaseMembershipBooking = async (membershipId: string, claimedAt: Date): Promise<void> => {
+  await MembershipModel.updateOne(
+    {
+      _id: membershipId,
+      bookingsUsed: { $gt: 0 },
+      // A renewal since then has already reset the count
+      currentPeriodStart: { $lte: claimedAt }
+    },
+    { $inc: { bookingsUsed: -1 } }
+  );
+};
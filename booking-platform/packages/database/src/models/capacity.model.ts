@@ -0,0 +1,24 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IOccurrenceCapacity extends Document {
+  eventId: string;
+  eventDate: Date;
+  reserved: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OccurrenceCapacitySchema = new Schema<IOccurrenceCapacity>(
+  {
+    eventId: { type: String, required: true, ref: 'Event' },
+    eventDate: { type: Date, required: true },
+    reserved: { type: Number, required: true, default: 0, min: 0 }
+  },
+  { timestamps: true }
+);
+
+// One counter per event occurrence
+OccurrenceCapacitySchema.index({ eventId: 1, eventDate: 1 }, { unique: true });
+
+export const OccurrenceCapacityModel = mongoose.models.OccurrenceCapacity ||
+  mongoose.model<IOccurrenceCapacity>('OccurrenceCapacity', OccurrenceCapacitySchema);
@@ -0,0 +1,35 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ICreditGrant extends Document {
+  userId: string;
+  providerId: string;
+  packId: string;
+  transactionId: string;
+  eventIds: string[];
+  creditsTotal: number;
+  creditsRemaining: number;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CreditGrantSchema = new Schema<ICreditGrant>(
+  {
+    userId: { type: String, required: true, ref: 'User' },
+    providerId: { type: String, required: true, ref: 'User' },
+    packId: { type: String, required: true, ref: 'CreditPack' },
+    // One grant per purchase, so replaying the payment never adds credits twice
+    transactionId: { type: String, required: true, unique: true, ref: 'Transaction' },
+    // Copied from the pack so later edits don't change what was bought
+    eventIds: [{ type: String, ref: 'Event' }],
+    creditsTotal: { type: Number, required: true, min: 1 },
+    creditsRemaining: { type: Number, required: true, min: 0 },
+    expiresAt: { type: Date, required: true }
+  },
+  { timestamps: true }
+);
+
+CreditGrantSchema.index({ userId: 1, providerId: 1, expiresAt: 1 });
+
+export const CreditGrantModel = mongoose.models.CreditGrant ||
+  mongoose.model<ICreditGrant>('CreditGrant', CreditGrantSchema);
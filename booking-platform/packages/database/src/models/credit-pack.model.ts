@@ -0,0 +1,38 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ICreditPack extends Document {
+  providerId: string;
+  name: string;
+  description?: string;
+  credits: number;
+  price: number;
+  currency: string;
+  validityDays: number;
+  eventIds: string[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CreditPackSchema = new Schema<ICreditPack>(
+  {
+    providerId: { type: String, required: true, ref: 'User' },
+    name: { type: String, required: true },
+    description: String,
+    // One credit books one attendee into one class
+    credits: { type: Number, required: true, min: 1 },
+    price: { type: Number, required: true, min: 0 },
+    currency: { type: String, required: true, default: 'USD' },
+    // Credits expire this many days after purchase
+    validityDays: { type: Number, required: true, min: 1 },
+    // Events the credits can be used for; empty means any of the provider's events
+    eventIds: [{ type: String, ref: 'Event' }],
+    isActive: { type: Boolean, required: true, default: true }
+  },
+  { timestamps: true }
+);
+
+CreditPackSchema.index({ providerId: 1, isActive: 1 });
+
+export const CreditPackModel = mongoose.models.CreditPack ||
+  mongoose.model<ICreditPack>('CreditPack', CreditPackSchema);
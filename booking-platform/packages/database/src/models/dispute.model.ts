@@ -0,0 +1,71 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IDispute extends Document {
+  stripeDisputeId: string;
+  transactionId: string;
+  bookingId?: string;
+  requestId?: string;
+  providerId: string;
+  amount: number;
+  currency: string;
+  reason: string;
+  status:
+    | 'warning_needs_response'
+    | 'warning_under_review'
+    | 'warning_closed'
+    | 'needs_response'
+    | 'under_review'
+    | 'won'
+    | 'lost';
+  evidenceDueBy?: Date;
+  evidence?: {
+    text: string;
+    updatedAt: Date;
+    submittedAt?: Date;
+    submittedBy?: string;
+  };
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DisputeSchema = new Schema<IDispute>(
+  {
+    stripeDisputeId: { type: String, required: true, unique: true },
+    transactionId: { type: String, required: true, ref: 'Transaction' },
+    bookingId: { type: String, ref: 'Booking' },
+    requestId: { type: String, ref: 'Request' },
+    // The creator who is asked to respond to the dispute
+    providerId: { type: String, required: true, ref: 'User' },
+    amount: { type: Number, required: true },
+    currency: { type: String, required: true, default: 'USD' },
+    reason: { type: String, required: true },
+    status: {
+      type: String,
+      required: true,
+      enum: [
+        'warning_needs_response',
+        'warning_under_review',
+        'warning_closed',
+        'needs_response',
+        'under_review',
+        'won',
+        'lost'
+      ],
+      default: 'needs_response'
+    },
+    evidenceDueBy: Date,
+    evidence: {
+      text: String,
+      updatedAt: Date,
+      submittedAt: Date,
+      submittedBy: { type: String, ref: 'User' }
+    },
+    closedAt: Date
+  },
+  { timestamps: true }
+);
+
+DisputeSchema.index({ providerId: 1, createdAt: -1 });
+
+export const DisputeModel = mongoose.models.Dispute || mongoose.model<IDispute>('Dispute', DisputeSchema);
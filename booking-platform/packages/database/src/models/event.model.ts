@@ -24,8 +24,15 @@ export interface IEvent extends Document {
   pricePerStudent: number;
   currency: string;
   maxCapacity: number;
+  cancellationPolicy?: {
+    rules: {
+      minHoursBeforeStart: number;
+      refundPercentage: number;
+    }[];
+  };
   attendees: string[];
   isPublic: boolean;
+  requestId?: string;
   isActive: boolean;
   tags: string[];
   createdAt: Date;
@@ -69,14 +76,25 @@ const EventSchema = new Schema<IEvent>(
     pricePerStudent: { type: Number, required: true },
     currency: { type: String, required: true, default: 'USD' },
     maxCapacity: { type: Number, required: true },
+    cancellationPolicy: {
+      rules: [{
+        minHoursBeforeStart: { type: Number, required: true, min: 0 },
+        refundPercentage: { type: Number, required: true, min: 0, max: 100 }
+      }]
+    },
     attendees: [{ type: String, ref: 'User' }],
     isPublic: { type: Boolean, default: true },
+    // Set when the event was made from an accepted request
+    requestId: { type: String, ref: 'Request' },
     isActive: { type: Boolean, default: true },
     tags: [{ type: String }]
   },
   { timestamps: true }
 );
 
+// Occupancy lookups fetch a space's active events around a date range
+EventSchema.index({ spaceId: 1, isActive: 1, 'schedule.startDate': 1 });
+
 export const EventModel = mongoose.models.Event || mongoose.model<IEvent>('Event', EventSchema);
 
 // packages/database/src/models/booking.model.ts
@@ -87,11 +105,32 @@ export interface IBooking extends Document {
   eventId: string;
   eventDate: Date;
   status: 'confirmed' | 'pending' | 'cancelled';
-  paymentStatus: 'unpaid' | 'partial' | 'paid';
+  paymentStatus: 'unpaid' | 'partial' | 'paid' | 'disputed';
   paymentId: string;
+  membershipId?: string;
+  requestId?: string;
+  creditRedemptions?: {
+    grantId: string;
+    credits: number;
+  }[];
+  discount?: {
+    promoCodeId: string;
+    redemptionId: string;
+    code: string;
+    discountType: 'percentage' | 'fixed';
+    value: number;
+    amount: number;
+  };
+  holdExpiresAt?: Date;
   attendeesCount: number;
   totalAmount: number;
   specialRequirements?: string;
+  rescheduleHistory: {
+    fromDate: Date;
+    toDate: Date;
+    rescheduledBy: string;
+    rescheduledAt: Date;
+  }[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -110,15 +149,43 @@ const BookingSchema = new Schema<IBooking>(
     paymentStatus: { 
       type: String, 
       required: true, 
-      enum: ['unpaid', 'partial', 'paid'],
+      enum: ['unpaid', 'partial', 'paid', 'disputed'],
       default: 'unpaid'
     },
     paymentId: String,
+    // Set when a membership covered the booking instead of a payment
+    membershipId: { type: String, ref: 'Membership' },
+    // Set when the booking was made from an accepted request, which carries the payment
+    requestId: { type: String, ref: 'Request' },
+    // Set when the booking was paid for with class pack credits
+    creditRedemptions: [{
+      grantId: { type: String, required: true, ref: 'CreditGrant' },
+      credits: { type: Number, required: true, min: 1 }
+    }],
+    // A promo code applied to the price
+    discount: {
+      promoCodeId: { type: String, ref: 'PromoCode' },
+      redemptionId: { type: String, ref: 'PromoRedemption' },
+      code: String,
+      discountType: { type: String, enum: ['percentage', 'fixed'] },
+      value: Number,
+      amount: Number
+    },
+    // Pending bookings hold their seats only until this time unless paid
+    holdExpiresAt: Date,
     attendeesCount: { type: Number, required: true, default: 1 },
     totalAmount: { type: Number, required: true },
-    specialRequirements: String
+    specialRequirements: String,
+    rescheduleHistory: [{
+      fromDate: { type: Date, required: true },
+      toDate: { type: Date, required: true },
+      rescheduledBy: { type: String, required: true, ref: 'User' },
+      rescheduledAt: { type: Date, required: true, default: Date.now }
+    }]
   },
   { timestamps: true }
 );
 
+BookingSchema.index({ eventId: 1, eventDate: 1, status: 1 });
+
 export const BookingModel = mongoose.models.Booking || mongoose.model<IBooking>('Booking', BookingSchema);
\ No newline at end of file
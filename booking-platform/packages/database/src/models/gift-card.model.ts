@@ -0,0 +1,45 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IGiftCard extends Document {
+  code: string;
+  initialAmount: number;
+  balance: number;
+  currency: string;
+  purchaserId: string;
+  recipientEmail?: string;
+  message?: string;
+  transactionId?: string;
+  status: 'pending' | 'active' | 'cancelled';
+  activatedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GiftCardSchema = new Schema<IGiftCard>(
+  {
+    code: { type: String, required: true, unique: true, uppercase: true, trim: true },
+    initialAmount: { type: Number, required: true, min: 0 },
+    // What is left to spend; partial redemptions take from it and refunds put it back
+    balance: { type: Number, required: true, min: 0 },
+    currency: { type: String, required: true, default: 'USD' },
+    purchaserId: { type: String, required: true, ref: 'User' },
+    recipientEmail: { type: String, lowercase: true, trim: true },
+    message: String,
+    // The purchase; the card can only be spent once it has been paid for
+    transactionId: { type: String, ref: 'Transaction' },
+    status: {
+      type: String,
+      required: true,
+      enum: ['pending', 'active', 'cancelled'],
+      default: 'pending'
+    },
+    activatedAt: Date
+  },
+  { timestamps: true }
+);
+
+GiftCardSchema.index({ purchaserId: 1, createdAt: -1 });
+GiftCardSchema.index({ recipientEmail: 1, status: 1 });
+
+export const GiftCardModel = mongoose.models.GiftCard ||
+  mongoose.model<IGiftCard>('GiftCard', GiftCardSchema);
@@ -0,0 +1,40 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IIdempotencyRecord extends Document {
+  key: string;
+  scope: string;
+  fingerprint: string;
+  status: 'processing' | 'completed';
+  responseStatus?: number;
+  responseBody?: any;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IdempotencyRecordSchema = new Schema<IIdempotencyRecord>(
+  {
+    key: { type: String, required: true },
+    // The endpoint the key was used for
+    scope: { type: String, required: true },
+    // Hash of the original request, so a key can't be reused for a different one
+    fingerprint: { type: String, required: true },
+    status: {
+      type: String,
+      required: true,
+      enum: ['processing', 'completed'],
+      default: 'processing'
+    },
+    responseStatus: Number,
+    responseBody: Schema.Types.Mixed,
+    expiresAt: { type: Date, required: true }
+  },
+  { timestamps: true }
+);
+
+IdempotencyRecordSchema.index({ key: 1, scope: 1 }, { unique: true });
+// Let MongoDB remove records once keys can no longer be replayed
+IdempotencyRecordSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const IdempotencyRecordModel = mongoose.models.IdempotencyRecord ||
+  mongoose.model<IIdempotencyRecord>('IdempotencyRecord', IdempotencyRecordSchema);
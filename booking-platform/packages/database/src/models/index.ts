@@ -3,4 +3,18 @@ export * from './space.model';
 export * from './event.model';
 export * from './booking.model';
 export * from './request.model';
-export * from './transaction.model';
\ No newline at end of file
+export * from './transaction.model';
+export * from './waitlist.model';
+export * from './capacity.model';
+export * from './ledger.model';
+export * from './idempotency.model';
+export * from './webhook-event.model';
+export * from './dispute.model';
+export * from './notification.model';
+export * from './membership-plan.model';
+export * from './membership.model';
+export * from './credit-pack.model';
+export * from './credit-grant.model';
+export * from './promo-code.model';
+export * from './promo-redemption.model';
+export * from './gift-card.model';
\ No newline at end of file
@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type LedgerAccount = 'cash' | 'platform_revenue' | 'creator_payable' | 'venue_payable' | 'gift_card_liability';
+
+export interface ILedgerJournal extends Document {
+  reference: string;
+  type: 'charge' | 'refund' | 'payout';
+  transactionId: string;
+  currency: string;
+  description?: string;
+  lines: {
+    account: LedgerAccount;
+    ownerId?: string;
+    debit: number;
+    credit: number;
+  }[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LedgerJournalSchema = new Schema<ILedgerJournal>(
+  {
+    // Identifies the money movement so it is never recorded twice
+    reference: { type: String, required: true, unique: true },
+    type: {
+      type: String,
+      required: true,
+      enum: ['charge', 'refund', 'payout']
+    },
+    transactionId: { type: String, required: true, ref: 'Transaction' },
+    currency: { type: String, required: true, default: 'USD' },
+    description: String,
+    lines: [{
+      account: {
+        type: String,
+        required: true,
+        enum: ['cash', 'platform_revenue', 'creator_payable', 'venue_payable', 'gift_card_liability']
+      },
+      ownerId: { type: String, ref: 'User' },
+      debit: { type: Number, required: true, default: 0, min: 0 },
+      credit: { type: Number, required: true, default: 0, min: 0 }
+    }]
+  },
+  { timestamps: true }
+);
+
+LedgerJournalSchema.index({ 'lines.account': 1, 'lines.ownerId': 1 });
+LedgerJournalSchema.index({ transactionId: 1 });
+
+// Every journal must balance: total debits equal total credits
+LedgerJournalSchema.pre('validate', function (next) {
+  const debits = this.lines.reduce((sum, line) => sum + line.debit, 0);
+  const credits = this.lines.reduce((sum, line) => sum + line.credit, 0);
+
+  if (Math.round(debits * 100) !== Math.round(credits * 100)) {
+    next(new Error(`Unbalanced ledger journal ${this.reference}: debits ${debits}, credits ${credits}`));
+    return;
+  }
+
+  next();
+});
+
+export const LedgerJournalModel = mongoose.models.LedgerJournal ||
+  mongoose.model<ILedgerJournal>('LedgerJournal', LedgerJournalSchema);
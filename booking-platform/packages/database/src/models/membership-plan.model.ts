@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IMembershipPlan extends Document {
+  providerId: string;
+  name: string;
+  description?: string;
+  price: number;
+  currency: string;
+  interval: 'month';
+  bookingsPerPeriod?: number;
+  eventIds: string[];
+  stripeProductId?: string;
+  stripePriceId?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MembershipPlanSchema = new Schema<IMembershipPlan>(
+  {
+    providerId: { type: String, required: true, ref: 'User' },
+    name: { type: String, required: true },
+    description: String,
+    price: { type: Number, required: true, min: 0 },
+    currency: { type: String, required: true, default: 'USD' },
+    interval: {
+      type: String,
+      required: true,
+      enum: ['month'],
+      default: 'month'
+    },
+    // Bookings included each billing period; unset means unlimited
+    bookingsPerPeriod: { type: Number, min: 1 },
+    // Recurring events the plan covers; empty means all of the provider's recurring events
+    eventIds: [{ type: String, ref: 'Event' }],
+    stripeProductId: String,
+    stripePriceId: String,
+    isActive: { type: Boolean, required: true, default: true }
+  },
+  { timestamps: true }
+);
+
+MembershipPlanSchema.index({ providerId: 1, isActive: 1 });
+
+export const MembershipPlanModel = mongoose.models.MembershipPlan ||
+  mongoose.model<IMembershipPlan>('MembershipPlan', MembershipPlanSchema);
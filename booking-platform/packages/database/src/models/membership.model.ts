@@ -0,0 +1,44 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IMembership extends Document {
+  userId: string;
+  planId: string;
+  providerId: string;
+  status: 'incomplete' | 'active' | 'past_due' | 'cancelled';
+  stripeSubscriptionId?: string;
+  currentPeriodStart?: Date;
+  currentPeriodEnd?: Date;
+  bookingsUsed: number;
+  cancelAtPeriodEnd: boolean;
+  cancelledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MembershipSchema = new Schema<IMembership>(
+  {
+    userId: { type: String, required: true, ref: 'User' },
+    planId: { type: String, required: true, ref: 'MembershipPlan' },
+    providerId: { type: String, required: true, ref: 'User' },
+    status: {
+      type: String,
+      required: true,
+      enum: ['incomplete', 'active', 'past_due', 'cancelled'],
+      default: 'incomplete'
+    },
+    stripeSubscriptionId: { type: String, unique: true, sparse: true },
+    // The billing period that has been paid for
+    currentPeriodStart: Date,
+    currentPeriodEnd: Date,
+    // Bookings made in the current period, reset on renewal
+    bookingsUsed: { type: Number, required: true, default: 0 },
+    cancelAtPeriodEnd: { type: Boolean, required: true, default: false },
+    cancelledAt: Date
+  },
+  { timestamps: true }
+);
+
+MembershipSchema.index({ userId: 1, providerId: 1, status: 1 });
+
+export const MembershipModel = mongoose.models.Membership ||
+  mongoose.model<IMembership>('Membership', MembershipSchema);
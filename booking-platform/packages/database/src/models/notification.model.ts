@@ -0,0 +1,30 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface INotification extends Document {
+  userId: string;
+  type: string;
+  title: string;
+  message: string;
+  link?: string;
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationSchema = new Schema<INotification>(
+  {
+    userId: { type: String, required: true, ref: 'User' },
+    type: { type: String, required: true },
+    title: { type: String, required: true },
+    message: { type: String, required: true },
+    // Where in the app the user can act on the notification
+    link: String,
+    readAt: Date
+  },
+  { timestamps: true }
+);
+
+NotificationSchema.index({ userId: 1, createdAt: -1 });
+
+export const NotificationModel = mongoose.models.Notification ||
+  mongoose.model<INotification>('Notification', NotificationSchema);
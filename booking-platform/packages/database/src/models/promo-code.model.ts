@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IPromoCode extends Document {
+  code: string;
+  providerId?: string;
+  description?: string;
+  discountType: 'percentage' | 'fixed';
+  value: number;
+  appliesTo: 'all' | 'bookings' | 'requests';
+  eventIds: string[];
+  firstTimeOnly: boolean;
+  maxRedemptions?: number;
+  maxRedemptionsPerUser?: number;
+  redemptionCount: number;
+  validFrom?: Date;
+  validUntil?: Date;
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PromoCodeSchema = new Schema<IPromoCode>(
+  {
+    code: { type: String, required: true, unique: true, uppercase: true, trim: true },
+    // The provider the code is for; unset for platform-wide codes
+    providerId: { type: String, ref: 'User' },
+    description: String,
+    discountType: {
+      type: String,
+      required: true,
+      enum: ['percentage', 'fixed']
+    },
+    value: { type: Number, required: true, min: 0 },
+    appliesTo: {
+      type: String,
+      required: true,
+      enum: ['all', 'bookings', 'requests'],
+      default: 'all'
+    },
+    // Events the code can be used for; empty means any
+    eventIds: [{ type: String, ref: 'Event' }],
+    // Only for customers who have never paid the provider (or the platform) before
+    firstTimeOnly: { type: Boolean, required: true, default: false },
+    maxRedemptions: { type: Number, min: 1 },
+    maxRedemptionsPerUser: { type: Number, min: 1 },
+    redemptionCount: { type: Number, required: true, default: 0 },
+    validFrom: Date,
+    validUntil: Date,
+    isActive: { type: Boolean, required: true, default: true },
+    createdBy: { type: String, required: true, ref: 'User' }
+  },
+  { timestamps: true }
+);
+
+PromoCodeSchema.index({ providerId: 1, isActive: 1 });
+
+export const PromoCodeModel = mongoose.models.PromoCode ||
+  mongoose.model<IPromoCode>('PromoCode', PromoCodeSchema);
@@ -0,0 +1,24 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IPromoRedemption extends Document {
+  promoCodeId: string;
+  userId: string;
+  amount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PromoRedemptionSchema = new Schema<IPromoRedemption>(
+  {
+    promoCodeId: { type: String, required: true, ref: 'PromoCode' },
+    userId: { type: String, required: true, ref: 'User' },
+    // How much the code took off
+    amount: { type: Number, required: true }
+  },
+  { timestamps: true }
+);
+
+PromoRedemptionSchema.index({ promoCodeId: 1, userId: 1 });
+
+export const PromoRedemptionModel = mongoose.models.PromoRedemption ||
+  mongoose.model<IPromoRedemption>('PromoRedemption', PromoRedemptionSchema);
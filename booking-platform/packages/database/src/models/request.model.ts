@@ -1,4 +1,25 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type NegotiationParty = 'requester' | 'creator' | 'venue';
+
+export interface IRequestProposal {
+  version: number;
+  proposedBy: string;
+  proposerRoles: NegotiationParty[];
+  venueFee: number;
+  creatorFee: number;
+  desiredDateTime: {
+    start: Date;
+    end: Date;
+  };
+  attendeesCount: number;
+  message?: string;
+  awaiting: NegotiationParty[];
+  acceptedBy: NegotiationParty[];
+  status: 'open' | 'accepted' | 'declined' | 'superseded';
+  respondedAt?: Date;
+  createdAt: Date;
+}
 
 export interface IRequest extends Document {
   userId: string;
@@ -11,7 +32,11 @@ export interface IRequest extends Document {
     end: Date;
   };
   attendeesCount: number;
-  status: 'pending' | 'accepted' | 'rejected';
+  status: 'pending' | 'accepted' | 'rejected' | 'expired';
+  responseDeadline?: Date;
+  remindersSent: number[];
+  escalatedAt?: Date;
+  expiredAt?: Date;
   venueApproval: 'pending' | 'accepted' | 'rejected';
   creatorApproval: 'pending' | 'accepted' | 'rejected';
   priceBreakdown: {
@@ -20,8 +45,53 @@ export interface IRequest extends Document {
     platformFee: number;
     totalCost: number;
   };
-  paymentStatus: 'unpaid' | 'partial' | 'paid';
+  paymentStatus: 'unpaid' | 'partial' | 'paid' | 'disputed';
   paymentId?: string;
+  discount?: {
+    promoCodeId: string;
+    redemptionId: string;
+    code: string;
+    discountType: 'percentage' | 'fixed';
+    value: number;
+    amount: number;
+  };
+  deposit?: {
+    percentage: number;
+    amount: number;
+    balanceAmount: number;
+    balanceDueAt: Date;
+    balanceStatus: 'awaiting_deposit' | 'scheduled' | 'processing' | 'paid' | 'failed';
+    depositPaymentId?: string;
+    balancePaymentId?: string;
+    failureMessage?: string;
+  };
+  splitPayment?: {
+    status: 'collecting' | 'completed' | 'expired';
+    deadline: Date;
+    shares: {
+      _id: string;
+      email: string;
+      userId?: string;
+      isRequester: boolean;
+      amount: number;
+      status: 'invited' | 'pending' | 'paid' | 'covered' | 'refunded';
+      transactionId?: string;
+      paidAt?: Date;
+    }[];
+  };
+  negotiation?: {
+    agreedVersion: number;
+    proposals: Types.DocumentArray<IRequestProposal>;
+  };
+  conversion?: {
+    status: 'converting' | 'completed' | 'failed';
+    eventId?: string;
+    bookingId?: string;
+    paymentId?: string;
+    failureMessage?: string;
+    attemptedAt: Date;
+    completedAt?: Date;
+  };
   specialRequirements?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -42,9 +112,16 @@ const RequestSchema = new Schema<IRequest>(
     status: { 
       type: String, 
       required: true, 
-      enum: ['pending', 'accepted', 'rejected'],
+      enum: ['pending', 'accepted', 'rejected', 'expired'],
       default: 'pending'
     },
+    // The creator and venue must answer by then or the request expires
+    responseDeadline: Date,
+    // Hours-before-deadline reminders already sent
+    remindersSent: { type: [Number], default: [] },
+    // Set when a missed deadline was escalated and extended instead of expiring
+    escalatedAt: Date,
+    expiredAt: Date,
     venueApproval: { 
       type: String, 
       required: true, 
@@ -66,13 +143,104 @@ const RequestSchema = new Schema<IRequest>(
     paymentStatus: { 
       type: String, 
       required: true, 
-      enum: ['unpaid', 'partial', 'paid'],
+      enum: ['unpaid', 'partial', 'paid', 'disputed'],
       default: 'unpaid'
     },
     paymentId: String,
+    // A promo code applied to the price, taken off before the platform fee
+    discount: {
+      promoCodeId: { type: String, ref: 'PromoCode' },
+      redemptionId: { type: String, ref: 'PromoRedemption' },
+      code: String,
+      discountType: { type: String, enum: ['percentage', 'fixed'] },
+      value: Number,
+      amount: Number
+    },
+    // Providers can take part of the price up front and charge the rest before the date
+    deposit: {
+      percentage: Number,
+      amount: Number,
+      balanceAmount: Number,
+      balanceDueAt: Date,
+      balanceStatus: {
+        type: String,
+        enum: ['awaiting_deposit', 'scheduled', 'processing', 'paid', 'failed']
+      },
+      depositPaymentId: String,
+      balancePaymentId: String,
+      failureMessage: String
+    },
+    // The requester can share the price with co-payers, each paying their own share
+    splitPayment: {
+      status: {
+        type: String,
+        enum: ['collecting', 'completed', 'expired']
+      },
+      deadline: Date,
+      shares: [{
+        email: { type: String, required: true, lowercase: true, trim: true },
+        userId: { type: String, ref: 'User' },
+        isRequester: { type: Boolean, required: true, default: false },
+        amount: { type: Number, required: true },
+        status: {
+          type: String,
+          required: true,
+          enum: ['invited', 'pending', 'paid', 'covered', 'refunded'],
+          default: 'invited'
+        },
+        transactionId: String,
+        paidAt: Date
+      }]
+    },
+    // Counter-offers on the price, time and size; the request holds the last agreed terms
+    negotiation: {
+      // Zero while the terms are still the ones originally requested
+      agreedVersion: { type: Number, default: 0 },
+      proposals: [{
+        version: { type: Number, required: true },
+        proposedBy: { type: String, required: true, ref: 'User' },
+        proposerRoles: [{ type: String, enum: ['requester', 'creator', 'venue'] }],
+        // Each proposal is a full set of terms, not just what changed
+        venueFee: { type: Number, required: true },
+        creatorFee: { type: Number, required: true },
+        desiredDateTime: {
+          start: { type: Date, required: true },
+          end: { type: Date, required: true }
+        },
+        attendeesCount: { type: Number, required: true },
+        message: String,
+        // The parties whose terms changed and who still have to agree
+        awaiting: [{ type: String, enum: ['requester', 'creator', 'venue'] }],
+        acceptedBy: [{ type: String, enum: ['requester', 'creator', 'venue'] }],
+        status: {
+          type: String,
+          required: true,
+          enum: ['open', 'accepted', 'declined', 'superseded'],
+          default: 'open'
+        },
+        respondedAt: Date,
+        createdAt: { type: Date, required: true, default: Date.now }
+      }]
+    },
+    // The private event and booking an accepted request was turned into
+    conversion: {
+      status: { type: String, enum: ['converting', 'completed', 'failed'] },
+      eventId: { type: String, ref: 'Event' },
+      bookingId: { type: String, ref: 'Booking' },
+      paymentId: { type: String, ref: 'Transaction' },
+      failureMessage: String,
+      attemptedAt: Date,
+      completedAt: Date
+    },
     specialRequirements: String
   },
   { timestamps: true }
 );
 
+RequestSchema.index({ status: 1, responseDeadline: 1 });
+RequestSchema.index({ 'deposit.balanceStatus': 1, 'deposit.balanceDueAt': 1 });
+RequestSchema.index({ 'splitPayment.status': 1, 'splitPayment.deadline': 1 });
+RequestSchema.index({ 'splitPayment.shares.email': 1 });
+RequestSchema.index({ spaceId: 1, status: 1, 'desiredDateTime.start': 1 });
+
 export const RequestModel = mongoose.models.Request || mongoose.model<IRequest>('Request', RequestSchema);
\ No newline at end of file
@@ -3,20 +3,62 @@ import mongoose, { Document, Schema } from 'mongoose';
 export interface ITransaction extends Document {
   bookingId?: string;
   requestId?: string;
-  transactionType: 'booking' | 'request' | 'subscription';
+  payerId?: string;
+  membershipId?: string;
+  creditPackId?: string;
+  giftCardId?: string;
+  giftCardRedemption?: {
+    giftCardId: string;
+    code: string;
+    amount: number;
+    amountRestored: number;
+  };
+  discount?: {
+    promoCodeId: string;
+    code: string;
+    amount: number;
+  };
+  transactionType: 'booking' | 'request' | 'subscription' | 'credit_pack' | 'gift_card';
   amount: number;
   currency: string;
-  paymentMethod: 'stripe' | 'bitcoin';
+  paymentMethod: 'stripe' | 'bitcoin' | 'gift_card';
   paymentMethodDetails?: any;
   collaboratorSplits?: {
     creatorId: string;
+    role: 'lead' | 'collaborator' | 'venue';
     amount: number;
+    stripeAccountId?: string;
+    transferId?: string;
+    payoutStatus: 'pending' | 'held' | 'transferred' | 'failed' | 'cancelled';
+    transferredAt?: Date;
   }[];
   platformFee: number;
-  status: 'pending' | 'completed' | 'failed' | 'refunded';
+  paymentStage: 'full' | 'deposit' | 'balance' | 'share' | 'remainder';
+  splitShareIds?: string[];
+  status: 'pending' | 'completed' | 'failed' | 'partially_refunded' | 'refunded';
   stripePaymentIntentId?: string;
+  stripeChargeId?: string;
+  stripeInvoiceId?: string;
+  payoutReleaseAt?: Date;
+  payoutsHeld?: boolean;
   bitcoinTransactionId?: string;
-  refundId?: string;
+  bitcoinInvoice?: {
+    address: string;
+    amountSats: number;
+    exchangeRate: number;
+    requiredConfirmations: number;
+    receivedSats: number;
+    confirmations: number;
+    expiresAt: Date;
+  };
+  amountRefunded: number;
+  refunds: {
+    refundId: string;
+    amount: number;
+    reason?: string;
+    actorId: string;
+    createdAt: Date;
+  }[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -25,35 +67,106 @@ const TransactionSchema = new Schema<ITransaction>(
   {
     bookingId: { type: String, ref: 'Booking' },
     requestId: { type: String, ref: 'Request' },
+    // Who paid, which for a split-bill share is not the requester
+    payerId: { type: String, ref: 'User' },
+    membershipId: { type: String, ref: 'Membership' },
+    creditPackId: { type: String, ref: 'CreditPack' },
+    // The gift card this transaction buys
+    giftCardId: { type: String, ref: 'GiftCard' },
+    // Part of the amount paid from a gift card; only the rest is charged to the card on file
+    giftCardRedemption: {
+      giftCardId: { type: String, ref: 'GiftCard' },
+      code: String,
+      amount: Number,
+      amountRestored: { type: Number, default: 0 }
+    },
+    // The promo code on the booking or request, already taken off the amount
+    discount: {
+      promoCodeId: { type: String, ref: 'PromoCode' },
+      code: String,
+      amount: Number
+    },
     transactionType: {
       type: String,
       required: true,
-      enum: ['booking', 'request', 'subscription']
+      enum: ['booking', 'request', 'subscription', 'credit_pack', 'gift_card']
     },
     amount: { type: Number, required: true },
     currency: { type: String, required: true, default: 'USD' },
     paymentMethod: {
       type: String,
       required: true,
-      enum: ['stripe', 'bitcoin']
+      enum: ['stripe', 'bitcoin', 'gift_card']
     },
     paymentMethodDetails: Schema.Types.Mixed,
     collaboratorSplits: [{
       creatorId: { type: String, required: true, ref: 'User' },
-      amount: { type: Number, required: true }
+      role: {
+        type: String,
+        required: true,
+        enum: ['lead', 'collaborator', 'venue'],
+        default: 'collaborator'
+      },
+      amount: { type: Number, required: true },
+      stripeAccountId: String,
+      transferId: String,
+      // Held until the recipient finishes Stripe Connect onboarding
+      payoutStatus: {
+        type: String,
+        required: true,
+        enum: ['pending', 'held', 'transferred', 'failed', 'cancelled'],
+        default: 'pending'
+      },
+      transferredAt: Date
     }],
     platformFee: { type: Number, required: true },
+    // Deposit, balance and split-bill share payments for the same request are separate transactions
+    paymentStage: {
+      type: String,
+      required: true,
+      enum: ['full', 'deposit', 'balance', 'share', 'remainder'],
+      default: 'full'
+    },
+    // The split-bill shares a share or remainder payment settles
+    splitShareIds: [String],
     status: {
       type: String,
       required: true,
-      enum: ['pending', 'completed', 'failed', 'refunded'],
+      enum: ['pending', 'completed', 'failed', 'partially_refunded', 'refunded'],
       default: 'pending'
     },
     stripePaymentIntentId: String,
+    stripeChargeId: String,
+    // Membership renewals are recorded once per paid invoice
+    stripeInvoiceId: { type: String, unique: true, sparse: true },
+    // Creators are paid out only once the event has happened
+    payoutReleaseAt: Date,
+    // Set while a dispute is open; nothing is paid out until it closes
+    payoutsHeld: { type: Boolean, default: false },
     bitcoinTransactionId: String,
-    refundId: String
+    bitcoinInvoice: {
+      address: String,
+      amountSats: Number,
+      // Price of one bitcoin in the transaction currency when the invoice was issued
+      exchangeRate: Number,
+      requiredConfirmations: Number,
+      receivedSats: { type: Number, default: 0 },
+      confirmations: { type: Number, default: 0 },
+      expiresAt: Date
+    },
+    amountRefunded: { type: Number, required: true, default: 0 },
+    refunds: [{
+      refundId: { type: String, required: true },
+      amount: { type: Number, required: true },
+      reason: String,
+      actorId: { type: String, required: true },
+      createdAt: { type: Date, required: true, default: Date.now }
+    }]
   },
   { timestamps: true }
 );
 
+TransactionSchema.index({ payoutReleaseAt: 1 });
+TransactionSchema.index({ 'bitcoinInvoice.address': 1 });
+
 export const TransactionModel = mongoose.models.Transaction || mongoose.model<ITransaction>('Transaction', TransactionSchema);
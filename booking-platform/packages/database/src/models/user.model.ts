@@ -13,6 +13,16 @@ export interface IUser extends Document {
   stripe?: {
     customerId?: string;
     accountId?: string;
+    payoutsEnabled?: boolean;
+  };
+  rateCard?: {
+    hourlyRate: number;
+    perAttendeeRate: number;
+    minimumFee: number;
+    travelFee: number;
+    weekendSurcharge: number;
+    eveningSurcharge: number;
+    eveningStartsAt: string;
   };
   followers: string[];
   following: string[];
@@ -38,7 +48,18 @@ const UserSchema = new Schema<IUser>(
     },
     stripe: {
       customerId: String,
-      accountId: String
+      accountId: String,
+      payoutsEnabled: { type: Boolean, default: false }
+    },
+    // What a creator charges for requests; surcharges are percentages
+    rateCard: {
+      hourlyRate: { type: Number, min: 0 },
+      perAttendeeRate: { type: Number, min: 0 },
+      minimumFee: { type: Number, min: 0 },
+      travelFee: { type: Number, min: 0 },
+      weekendSurcharge: { type: Number, min: 0, max: 100 },
+      eveningSurcharge: { type: Number, min: 0, max: 100 },
+      eveningStartsAt: String
     },
     followers: [{ type: String }],
     following: [{ type: String }]
@@ -0,0 +1,38 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IWaitlistEntry extends Document {
+  userId: string;
+  eventId: string;
+  eventDate: Date;
+  attendeesCount: number;
+  status: 'waiting' | 'offered' | 'claimed' | 'expired' | 'cancelled';
+  offeredAt?: Date;
+  offerExpiresAt?: Date;
+  bookingId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WaitlistSchema = new Schema<IWaitlistEntry>(
+  {
+    userId: { type: String, required: true, ref: 'User' },
+    eventId: { type: String, required: true, ref: 'Event' },
+    eventDate: { type: Date, required: true },
+    attendeesCount: { type: Number, required: true, default: 1 },
+    status: {
+      type: String,
+      required: true,
+      enum: ['waiting', 'offered', 'claimed', 'expired', 'cancelled'],
+      default: 'waiting'
+    },
+    offeredAt: Date,
+    offerExpiresAt: Date,
+    bookingId: { type: String, ref: 'Booking' }
+  },
+  { timestamps: true }
+);
+
+// Entries are served first-come first-served per occurrence
+WaitlistSchema.index({ eventId: 1, eventDate: 1, status: 1, createdAt: 1 });
+
+export const WaitlistModel = mongoose.models.Waitlist || mongoose.model<IWaitlistEntry>('Waitlist', WaitlistSchema);
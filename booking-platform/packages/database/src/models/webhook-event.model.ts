@@ -0,0 +1,48 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IWebhookEvent extends Document {
+  eventId: string;
+  provider: 'stripe';
+  type: string;
+  payload: any;
+  status: 'pending' | 'processing' | 'processed' | 'failed' | 'dead';
+  attempts: number;
+  nextAttemptAt?: Date;
+  lockedAt?: Date;
+  lastError?: string;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookEventSchema = new Schema<IWebhookEvent>(
+  {
+    // The provider's event ID, so redelivered events are stored once
+    eventId: { type: String, required: true, unique: true },
+    provider: {
+      type: String,
+      required: true,
+      enum: ['stripe'],
+      default: 'stripe'
+    },
+    type: { type: String, required: true },
+    payload: { type: Schema.Types.Mixed, required: true },
+    status: {
+      type: String,
+      required: true,
+      enum: ['pending', 'processing', 'processed', 'failed', 'dead'],
+      default: 'pending'
+    },
+    attempts: { type: Number, required: true, default: 0 },
+    nextAttemptAt: Date,
+    lockedAt: Date,
+    lastError: String,
+    processedAt: Date
+  },
+  { timestamps: true }
+);
+
+WebhookEventSchema.index({ status: 1, nextAttemptAt: 1 });
+
+export const WebhookEventModel = mongoose.models.WebhookEvent ||
+  mongoose.model<IWebhookEvent>('WebhookEvent', WebhookEventSchema);
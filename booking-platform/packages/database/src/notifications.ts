@@ -0,0 +1,11 @@
+import { NotificationModel, INotification } from './models/notification.model';
+
+/**
+ * Leave an in-app notification for a user
+ */
+export const notifyUser = async (
+  userId: string,
+  notification: { type: string; title: string; message: string; link?: string }
+): Promise<INotification> => {
+  return NotificationModel.create({ userId, ...notification });
+};
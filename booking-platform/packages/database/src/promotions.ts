@@ -0,0 +1,157 @@
+import { PromoCodeModel, IPromoCode } from './models/promo-code.model';
+import { PromoRedemptionModel } from './models/promo-redemption.model';
+import { BookingModel } from './models';
+import { EventModel } from './models/event.model';
+import { RequestModel } from './models/request.model';
+
+export type AppliedDiscount = {
+  promoCodeId: string;
+  redemptionId: string;
+  code: string;
+  discountType: 'percentage' | 'fixed';
+  value: number;
+  amount: number;
+};
+
+export type PromoCodeCheck =
+  | { valid: true; promoCode: IPromoCode }
+  | { valid: false; message: string; code: string };
+
+/**
+ * Whether a user has never paid for a booking or request before,
+ * with one provider or (without a provider) anywhere on the platform
+ */
+export const isFirstTimeCustomer = async (userId: string, providerId?: string): Promise<boolean> => {
+  const eventIds = providerId
+    ? (await EventModel.find({ leadCreatorId: providerId }).select('_id')).map((event: any) => event._id.toString())
+    : undefined;
+
+  const paidBooking = await BookingModel.exists({
+    userId,
+    paymentStatus: 'paid',
+    totalAmount: { $gt: 0 },
+    ...(eventIds && { eventId: { $in: eventIds } })
+  });
+
+  if (paidBooking) {
+    return false;
+  }
+
+  const paidRequest = await RequestModel.exists({
+    userId,
+    paymentStatus: { $in: ['partial', 'paid'] },
+    ...(providerId && { creatorId: providerId })
+  });
+
+  return !paidRequest;
+};
+
+/**
+ * Check whether a code can be used by a user on a booking of an event or on a request to a creator
+ */
+export const checkPromoCode = async (
+  code: string,
+  usage: {
+    userId: string;
+    providerId: string;
+    kind: 'booking' | 'request';
+    eventId?: string;
+  },
+  at: Date = new Date()
+): Promise<PromoCodeCheck> => {
+  const promoCode: IPromoCode | null = await PromoCodeModel.findOne({
+    code: code.trim().toUpperCase(),
+    isActive: true
+  });
+
+  // Codes for another provider are reported as unknown rather than revealed
+  if (!promoCode || (promoCode.providerId && promoCode.providerId !== usage.providerId)) {
+    return { valid: false, message: 'Promo code not found', code: 'PROMO_NOT_FOUND' };
+  }
+
+  if ((promoCode.validFrom && promoCode.validFrom > at) || (promoCode.validUntil && promoCode.validUntil <= at)) {
+    return { valid: false, message: 'Promo code is not valid at this time', code: 'PROMO_EXPIRED' };
+  }
+
+  if (promoCode.appliesTo !== 'all' && promoCode.appliesTo !== `${usage.kind}s`) {
+    return { valid: false, message: `Promo code can't be used on ${usage.kind}s`, code: 'PROMO_NOT_APPLICABLE' };
+  }
+
+  if (promoCode.eventIds.length > 0 && (!usage.eventId || !promoCode.eventIds.includes(usage.eventId))) {
+    return { valid: false, message: 'Promo code can\'t be used for this event', code: 'PROMO_NOT_APPLICABLE' };
+  }
+
+  if (promoCode.maxRedemptions && promoCode.redemptionCount >= promoCode.maxRedemptions) {
+    return { valid: false, message: 'Promo code has been used up', code: 'PROMO_USED_UP' };
+  }
+
+  if (promoCode.maxRedemptionsPerUser) {
+    const used = await PromoRedemptionModel.countDocuments({
+      promoCodeId: promoCode._id.toString(),
+      userId: usage.userId
+    });
+
+    if (used >= promoCode.maxRedemptionsPerUser) {
+      return { valid: false, message: 'You have already used this promo code', code: 'PROMO_ALREADY_USED' };
+    }
+  }
+
+  if (promoCode.firstTimeOnly && !(await isFirstTimeCustomer(usage.userId, promoCode.providerId))) {
+    return { valid: false, message: 'Promo code is for first-time customers only', code: 'PROMO_FIRST_TIME_ONLY' };
+  }
+
+  return { valid: true, promoCode };
+};
+
+/**
+ * Use a checked code for a discount of the given amount.
+ * Returns null if the code ran out in the meantime.
+ */
+export const redeemPromoCode = async (
+  promoCode: IPromoCode,
+  userId: string,
+  amount: number
+): Promise<AppliedDiscount | null> => {
+  // Conditional on the limit so concurrent redemptions can't exceed it
+  const claimed = await PromoCodeModel.findOneAndUpdate(
+    {
+      _id: promoCode._id,
+      isActive: true,
+      ...(promoCode.maxRedemptions && { redemptionCount: { $lt: promoCode.maxRedemptions } })
+    },
+    { $inc: { redemptionCount: 1 } }
+  );
+
+  if (!claimed) {
+    return null;
+  }
+
+  const redemption = await PromoRedemptionModel.create({
+    promoCodeId: promoCode._id.toString(),
+    userId,
+    amount
+  });
+
+  return {
+    promoCodeId: promoCode._id.toString(),
+    redemptionId: redemption._id.toString(),
+    code: promoCode.code,
+    discountType: promoCode.discountType,
+    value: promoCode.value,
+    amount
+  };
+};
+
+/**
+ * Give back a redemption that was never paid for (e.g. the booking hold lapsed)
+ */
+export const releasePromoCode = async (discount: { promoCodeId: string; redemptionId: string }): Promise<void> => {
+  const removed = await PromoRedemptionModel.findByIdAndDelete(discount.redemptionId);
+
+  if (removed) {
+    await PromoCodeModel.updateOne(
+      { _id: discount.promoCodeId, redemptionCount: { $gt: 0 } },
+      { $inc: { redemptionCount: -1 } }
+    );
+  }
+};
@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import admin from 'firebase-admin';
+import { errorResponse } from '@booking-platform/utils';
+
+export interface AuthRequest extends Request {
+  user?: admin.auth.DecodedIdToken;
+}
+
+/**
+ * Middleware identifying the caller from the Firebase token the gateway (or another
+ * service acting for the user) passes on. Requests without a token carry on with no
+ * user, so service-to-service calls still work; handlers decide whether a user is needed.
+ */
+export const identifyUser = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    next();
+    return;
+  }
+
+  try {
+    req.user = await admin.auth().verifyIdToken(authHeader.split('Bearer ')[1]);
+  } catch (error: unknown) {
+    res.status(401).json(errorResponse('Unauthorized: Invalid token', 'AUTH_INVALID_TOKEN'));
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  releaseIdempotentRequest
+} from '@booking-platform/database';
+import { errorResponse } from '@booking-platform/utils';
+
+/**
+ * Middleware making an endpoint safe to retry with an Idempotency-Key header.
+ * The first request with a key runs normally and its response is stored;
+ * repeats of the same request get the stored response back.
+ */
+export const idempotent = (scope: string) => async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const key = req.header('Idempotency-Key');
+
+  // Keys are optional, requests without one behave as before
+  if (!key) {
+    next();
+    return;
+  }
+
+  const fingerprint = crypto
+    .createHash('sha256')
+    .update(`${req.method} ${req.originalUrl} ${JSON.stringify(req.body || {})}`)
+    .digest('hex');
+
+  try {
+    const check = await beginIdempotentRequest(key, scope, fingerprint);
+
+    if (check.state === 'mismatch') {
+      res.status(422).json(errorResponse('Idempotency key was already used for a different request', 'IDEMPOTENCY_KEY_REUSED'));
+      return;
+    }
+
+    if (check.state === 'processing') {
+      res.status(409).json(errorResponse('A request with this idempotency key is still in progress', 'IDEMPOTENCY_KEY_IN_USE'));
+      return;
+    }
+
+    if (check.state === 'completed') {
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(check.responseStatus).json(check.responseBody);
+      return;
+    }
+  } catch (error: unknown) {
+    console.error('Idempotency check error:', error);
+    const message = error instanceof Error ? error.message : 'Idempotency check failed';
+    res.status(500).json(errorResponse(message, 'IDEMPOTENCY_CHECK_ERROR'));
+    return;
+  }
+
+  // Store the response once the handler sends it
+  let recorded = false;
+  const json = res.json.bind(res);
+  res.json = (body: any) => {
+    recorded = true;
+
+    // Server errors aren't stored so the request can be retried
+    const store = res.statusCode >= 500
+      ? releaseIdempotentRequest(key, scope)
+      : completeIdempotentRequest(key, scope, res.statusCode, body);
+
+    store.catch((error: unknown) => {
+      console.error('Idempotency record error:', error instanceof Error ? error.message : error);
+    });
+
+    return json(body);
+  };
+
+  // Any other ending (a plain send, an error page, a dropped connection) frees the key for a retry
+  res.on('close', () => {
+    if (recorded) {
+      return;
+    }
+
+    releaseIdempotentRequest(key, scope).catch((error: unknown) => {
+      console.error('Idempotency release error:', error instanceof Error ? error.message : error);
+    });
+  });
+
+  next();
+};
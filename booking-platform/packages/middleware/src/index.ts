@@ -0,0 +1,2 @@
+export * from './auth';
+export * from './idempotency';
\ No newline at end of file
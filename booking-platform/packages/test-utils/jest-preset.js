@@ -0,0 +1,13 @@
+// Most backend sources have no file extension and the workspace packages are
+// only built for production, so tests compile and import straight from src.
+module.exports = {
+  testEnvironment: "node",
+  testTimeout: 60000,
+  moduleFileExtensions: ["ts", "js", "json", "node"],
+  transform: {
+    "\\.ts$|/src/.+/[^/.]+\\.[a-z-]+$": require.resolve("./transform.js")
+  },
+  moduleNameMapper: {
+    "^@booking-platform/(database|middleware|test-utils|utils)$": "<rootDir>/../../packages/$1/src"
+  }
+};
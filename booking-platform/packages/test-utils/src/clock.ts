@@ -0,0 +1,23 @@
+import { Clock } from '@booking-platform/utils';
+
+export interface TestClock extends Clock {
+  set(time: Date): void;
+  advance(ms: number): void;
+}
+
+/**
+ * Clock that only moves when a test moves it
+ */
+export const createTestClock = (start: Date): TestClock => {
+  let current = start;
+
+  return {
+    now: () => current,
+    set: (time: Date) => {
+      current = time;
+    },
+    advance: (ms: number) => {
+      current = new Date(current.getTime() + ms);
+    }
+  };
+};
@@ -0,0 +1,25 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+/**
+ * Run the calling test file against its own in-memory MongoDB, emptied after every test
+ */
+export const useTestDatabase = (): void => {
+  let mongo: MongoMemoryServer;
+
+  beforeAll(async () => {
+    mongo = await MongoMemoryServer.create();
+    await mongoose.connect(mongo.getUri());
+  });
+
+  afterEach(async () => {
+    for (const collection of Object.values(mongoose.connection.collections)) {
+      await collection.deleteMany({});
+    }
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongo?.stop();
+  });
+};
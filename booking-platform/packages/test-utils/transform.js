@@ -0,0 +1,29 @@
+const ts = require("typescript");
+const babel = require("@babel/core");
+
+// Compile only; type errors are caught by tsc in the build
+module.exports = {
+  process(sourceText, sourcePath) {
+    const compiled = ts.transpileModule(sourceText, {
+      fileName: sourcePath.endsWith(".ts") ? sourcePath : `${sourcePath}.ts`,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2020,
+        esModuleInterop: true,
+        sourceMap: true
+      }
+    });
+
+    // Move jest.mock calls above the imports, as ts-jest and babel-jest do
+    const { code, map } = babel.transformSync(compiled.outputText, {
+      filename: sourcePath,
+      babelrc: false,
+      configFile: false,
+      plugins: [require.resolve("babel-plugin-jest-hoist")],
+      inputSourceMap: JSON.parse(compiled.sourceMapText),
+      sourceMaps: true
+    });
+
+    return { code, map };
+  }
+};
@@ -25,6 +25,17 @@ export const formatTime = (time: string): string => {
   return `${formattedHour}:${minutes} ${suffix}`;
 };
 
+/**
+ * Get the start of an occurrence from its date and time slot start (HH:MM)
+ */
+export const getOccurrenceStart = (date: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':');
+  const start = new Date(date);
+  start.setHours(parseInt(hours, 10), parseInt(minutes, 10), 0, 0);
+
+  return start;
+};
+
 /**
  * Generate all occurrences of a recurring event
  */
@@ -97,4 +108,18 @@ export const isTimeSlotConflict = (
     (slot1.start < slot2.end && slot1.end > slot2.start) ||
     (slot2.start < slot1.end && slot2.end > slot1.start)
   );
+};
+
+/**
+ * Source of the current time for scheduled jobs (swap in a fake clock in tests)
+ */
+export interface Clock {
+  now(): Date;
+}
+
+/**
+ * Clock backed by the system time
+ */
+export const systemClock: Clock = {
+  now: () => new Date()
 };
\ No newline at end of file
@@ -15,6 +15,20 @@ export const calculatePlatformFee = (amount: number): number => {
   }
 };
 
+/**
+ * Calculate how much a discount takes off an amount, never more than the amount itself
+ */
+export const calculateDiscount = (
+  discount: { discountType: 'percentage' | 'fixed'; value: number },
+  amount: number
+): number => {
+  const raw = discount.discountType === 'percentage'
+    ? (amount * discount.value) / 100
+    : discount.value;
+
+  return Math.round(Math.min(amount, Math.max(0, raw)) * 100) / 100;
+};
+
 /**
  * Calculate revenue splits for collaborators
  */
@@ -40,4 +54,138 @@ export const calculateCollaboratorSplits = (
       amount
     };
   });
+};
+
+export interface CancellationPolicy {
+  rules: Array<{
+    minHoursBeforeStart: number;
+    refundPercentage: number;
+  }>;
+}
+
+/**
+ * Get the percentage of a payment to refund when cancelling under a policy.
+ * Without a policy the full amount is refunded; after the start nothing is.
+ */
+export const getRefundPercentage = (
+  policy: CancellationPolicy | undefined,
+  eventStart: Date,
+  cancelledAt: Date = new Date()
+): number => {
+  if (!policy || !policy.rules || policy.rules.length === 0) {
+    return 100;
+  }
+
+  const hoursBeforeStart = (eventStart.getTime() - cancelledAt.getTime()) / 3600000;
+  if (hoursBeforeStart < 0) {
+    return 0;
+  }
+
+  // The rule with the longest notice period that has been met applies
+  const rule = [...policy.rules]
+    .sort((a, b) => b.minHoursBeforeStart - a.minHoursBeforeStart)
+    .find(r => hoursBeforeStart >= r.minHoursBeforeStart);
+
+  return rule ? rule.refundPercentage : 0;
+};
+
+/**
+ * Describe a cancellation policy as human readable lines
+ */
+export const describeCancellationPolicy = (policy: CancellationPolicy | undefined): string[] => {
+  if (!policy || !policy.rules || policy.rules.length === 0) {
+    return ['Full refund if cancelled before the event starts'];
+  }
+
+  const rules = [...policy.rules].sort((a, b) => b.minHoursBeforeStart - a.minHoursBeforeStart);
+
+  const lines = rules.map((rule, index) => {
+    const refund = rule.refundPercentage === 100
+      ? 'Full refund'
+      : rule.refundPercentage === 0
+        ? 'No refund'
+        : `${rule.refundPercentage}% refund`;
+
+    if (rule.minHoursBeforeStart === 0) {
+      return index === 0
+        ? `${refund} if cancelled before the event starts`
+        : `${refund} if cancelled within ${rules[index - 1].minHoursBeforeStart} hours of the start`;
+    }
+
+    return `${refund} if cancelled at least ${rule.minHoursBeforeStart} hours before the start`;
+  });
+
+  const shortestNotice = rules[rules.length - 1].minHoursBeforeStart;
+  if (shortestNotice > 0) {
+    lines.push(`No refund if cancelled within ${shortestNotice} hours of the start`);
+  }
+
+  lines.push('No refund once the event has started');
+
+  return lines;
+};
+
+export interface RateCard {
+  hourlyRate: number;
+  perAttendeeRate: number;
+  minimumFee: number;
+  travelFee: number;
+  // Percentages added to the fee for sessions on a weekend or running into the evening
+  weekendSurcharge: number;
+  eveningSurcharge: number;
+  // When the evening starts (HH:MM)
+  eveningStartsAt: string;
+}
+
+export interface CreatorQuote {
+  hours: number;
+  timeFee: number;
+  attendeeFee: number;
+  weekendSurcharge: number;
+  eveningSurcharge: number;
+  minimumTopUp: number;
+  travelFee: number;
+  total: number;
+}
+
+/**
+ * Quote a creator's fee for a session from their rate card.
+ * Surcharges apply to the time and attendee fees, the minimum fee to everything
+ * but travel, which is always added on top. Times are read in local time.
+ */
+export const quoteCreatorFee = (
+  rateCard: RateCard,
+  start: Date,
+  end: Date,
+  attendeesCount: number
+): CreatorQuote => {
+  const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+  const hours = Math.max(0, (end.getTime() - start.getTime()) / 3600000);
+  const timeFee = round(rateCard.hourlyRate * hours);
+  const attendeeFee = round(rateCard.perAttendeeRate * attendeesCount);
+  const baseFee = timeFee + attendeeFee;
+
+  const isWeekend = start.getDay() === 0 || start.getDay() === 6;
+  const weekendSurcharge = isWeekend ? round(baseFee * rateCard.weekendSurcharge / 100) : 0;
+
+  // A session counts as an evening one if any of it runs past the evening start
+  const [eveningHours, eveningMinutes] = rateCard.eveningStartsAt.split(':').map(Number);
+  const eveningStart = new Date(start);
+  eveningStart.setHours(eveningHours, eveningMinutes, 0, 0);
+  const eveningSurcharge = end > eveningStart ? round(baseFee * rateCard.eveningSurcharge / 100) : 0;
+
+  const subtotal = baseFee + weekendSurcharge + eveningSurcharge;
+  const minimumTopUp = round(Math.max(0, rateCard.minimumFee - subtotal));
+
+  return {
+    hours: round(hours),
+    timeFee,
+    attendeeFee,
+    weekendSurcharge,
+    eveningSurcharge,
+    minimumTopUp,
+    travelFee: rateCard.travelFee,
+    total: round(subtotal + minimumTopUp + rateCard.travelFee)
+  };
 };
\ No newline at end of file
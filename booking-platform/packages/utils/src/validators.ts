@@ -24,4 +24,40 @@ export const isValidTimeFormat = (time: string): boolean => {
 export const isValidPhoneNumber = (phone: string): boolean => {
   const phoneRegex = /^\+?[1-9]\d{1,14}$/;
   return phoneRegex.test(phone);
+};
+
+/**
+ * Validate a cancellation policy's refund rules
+ */
+export const isValidCancellationPolicy = (policy: any): boolean => {
+  if (!policy || !Array.isArray(policy.rules)) {
+    return false;
+  }
+
+  const thresholds = policy.rules.map((rule: any) => rule.minHoursBeforeStart);
+
+  return policy.rules.every((rule: any) =>
+    typeof rule.minHoursBeforeStart === 'number' &&
+    rule.minHoursBeforeStart >= 0 &&
+    typeof rule.refundPercentage === 'number' &&
+    rule.refundPercentage >= 0 &&
+    rule.refundPercentage <= 100
+  ) && new Set(thresholds).size === thresholds.length;
+};
+
+/**
+ * Validate a creator's rate card
+ */
+export const isValidRateCard = (rateCard: any): boolean => {
+  if (!rateCard || typeof rateCard !== 'object') {
+    return false;
+  }
+
+  const amounts = ['hourlyRate', 'perAttendeeRate', 'minimumFee', 'travelFee', 'weekendSurcharge', 'eveningSurcharge'];
+
+  return amounts.every(field => typeof rateCard[field] === 'number' && rateCard[field] >= 0) &&
+    rateCard.weekendSurcharge <= 100 &&
+    rateCard.eveningSurcharge <= 100 &&
+    typeof rateCard.eveningStartsAt === 'string' &&
+    isValidTimeFormat(rateCard.eveningStartsAt);
 };
\ No newline at end of file